@@ -6,6 +6,8 @@ import { Client, GatewayIntentBits, ChatInputCommandInteraction, AttachmentBuild
 import { commands } from './commands.js';
 import * as SbQ from './query_supabase.js';
 import { HttpClient } from './http.js';
+import { PdfChunk, pageRangeLabel, splitPdfBySize } from './pdf_split.js';
+import { formatReleaseDate, parseReleaseDate } from './release_dates.js';
 
 const token = process.env.DISCORD_TOKEN || process.env.BOT_TOKEN;
 if (!token) {
@@ -18,6 +20,8 @@ const ATTACH_MAX_MB = parseFloat(process.env.ATTACH_MAX_MB || '8');
 const ATTACH_MAX_BYTES = Math.max(1, Math.floor(ATTACH_MAX_MB * 1024 * 1024));
 const FILES_ROOT = process.env.FILES_ROOT || 'downloads';
 const SUBDIR = process.env.SUBDIR || 'manuals';
+// attach:true on a PDF over ATTACH_MAX_MB sends it as up to this many page-range parts (0 = never split)
+const SPLIT_MAX_PARTS = Math.max(0, parseInt(process.env.SPLIT_MAX_PARTS || '10', 10));
 
 const http = new HttpClient({ concurrency: 2 });
 
@@ -29,7 +33,8 @@ client.on('interactionCreate', async (interaction) => {
     try {
       const focused = interaction.options.getFocused(true);
       if (interaction.commandName === 'manual' && focused.name === 'q') {
-        const list = await SbQ.suggestManuals(focused.value);
+        const category = interaction.options.getString('category') || undefined;
+        const list = category ? await suggestInCategory(focused.value, category, 20) : await SbQ.suggestManuals(focused.value);
         await interaction.respond(list);
       }
     } catch {}
@@ -38,37 +43,64 @@ client.on('interactionCreate', async (interaction) => {
   if (!interaction.isChatInputCommand()) return;
   try {
     if (interaction.commandName === 'manual') await handleManual(interaction);
+    else if (interaction.commandName === 'search') await handleSearch(interaction);
   } catch (e) {
     console.error('[bot] handler error', e);
     if (interaction.isRepliable()) await interaction.reply({ content: 'Sorry, something went wrong.', ephemeral: true }).catch(() => {});
   }
 });
 
-function formatRelease(dateVal: unknown, text: string | null | undefined): string {
-  const fromYMD = (s: string) => (/(\d{4})-(\d{2})-(\d{2})/.test(s) ? s : null);
-  const fromJP = (s: string) => {
-    const cleaned = s.replace(/発売/g, '');
-    const m = cleaned.match(/(\d{4})年\s*(\d{1,2})月(?:\s*(\d{1,2})日)?/);
-    if (!m) return null;
-    const y = m[1];
-    const mo = m[2].padStart(2, '0');
-    const d = m[3] ? m[3].padStart(2, '0') : null;
-    return d ? `${y}-${mo}-${d}` : `${y}-${mo}`;
-  };
+// Kit search (bandai.search_manuals) restricted to a category, shaped like suggestManuals' choices
+async function suggestInCategory(q: string, category: string, limit: number): Promise<SbQ.Suggestion[]> {
+  const rows = await SbQ.searchManuals(q, undefined, limit, category);
+  return rows.slice(0, limit).map((r) => ({
+    name: `${r.grade ? r.grade + ' ' : ''}${r.name_en || r.name_jp || 'Manual'} [${r.manual_id}]`.slice(0, 100),
+    value: String(r.manual_id)
+  }));
+}
 
-  if (dateVal instanceof Date) {
-    const y = dateVal.getFullYear();
-    const m = String(dateVal.getMonth() + 1).padStart(2, '0');
-    const d = String(dateVal.getDate()).padStart(2, '0');
-    return `${y}-${m}-${d}`;
-  }
-  if (typeof dateVal === 'string' && dateVal.trim()) {
-    return fromYMD(dateVal) || fromJP(dateVal) || dateVal.trim();
-  }
-  if (typeof text === 'string' && text.trim()) {
-    return fromJP(text.trim()) || text.trim();
-  }
-  return '—';
+function formatRelease(m: Pick<SbQ.ManualRow, 'release_date' | 'release_date_text' | 'release_sort_date' | 'release_precision'>): string {
+  // Stored precision first; rows not backfilled yet fall back to parsing the site's text
+  const shown =
+    formatReleaseDate(m.release_sort_date ?? m.release_date, m.release_precision ?? (m.release_date ? 'day' : null)) ??
+    (() => {
+      const p = parseReleaseDate(m.release_date_text);
+      return formatReleaseDate(p.sortDate, p.precision);
+    })();
+  return shown ?? (m.release_date_text?.trim() || '—');
+}
+
+const PAPER_SIZES: Array<[string, number, number]> = [
+  ['A3', 297, 420],
+  ['A4', 210, 297],
+  ['A5', 148, 210],
+  ['B4', 257, 364],
+  ['B5', 182, 257],
+  ['Letter', 216, 279]
+];
+
+// Same naming as describePageSize in the scraper's src/pdf.ts: "A4", "B5 landscape" or "200×280 mm"
+function describePageSize(widthPt: number, heightPt: number): string {
+  const w = (widthPt * 25.4) / 72;
+  const h = (heightPt * 25.4) / 72;
+  const [short, long] = w <= h ? [w, h] : [h, w];
+  const named = PAPER_SIZES.find(([, a, b]) => Math.abs(short - a) <= 3 && Math.abs(long - b) <= 3);
+  if (named) return w > h ? `${named[0]} landscape` : named[0];
+  return `${Math.round(w)}×${Math.round(h)} mm`;
+}
+
+// "40 pages · A4 · scanned" from the extract:meta columns; null until the PDF has been read
+function formatPdfInfo(m: {
+  pdf_page_count: number | null;
+  pdf_page_width_pt: number | null;
+  pdf_page_height_pt: number | null;
+  pdf_text_based: boolean | null;
+}): string | null {
+  if (!m.pdf_page_count) return null;
+  const parts = [`${m.pdf_page_count} page${m.pdf_page_count === 1 ? '' : 's'}`];
+  if (m.pdf_page_width_pt && m.pdf_page_height_pt) parts.push(describePageSize(m.pdf_page_width_pt, m.pdf_page_height_pt));
+  if (m.pdf_text_based === false) parts.push('scanned');
+  return parts.join(' · ');
 }
 
 function formatEmbed(m: SbQ.ManualRow) {
@@ -78,14 +110,50 @@ function formatEmbed(m: SbQ.ManualRow) {
     .addFields(
       { name: 'ID', value: String(m.manual_id), inline: true },
       { name: 'Grade', value: m.grade ? String(m.grade) : '—', inline: true },
-      { name: 'Release', value: formatRelease((m as any).release_date, m.release_date_text), inline: true }
+      { name: 'Release', value: formatRelease(m), inline: true }
     )
     .setFooter({ text: 'Bandai Manuals' });
+  const pdfInfo = formatPdfInfo(m);
+  if (pdfInfo) eb.addFields({ name: 'PDF', value: pdfInfo, inline: true });
+  if (m.delisted_at) {
+    eb.setDescription(
+      m.pdf_removed_at
+        ? '⚠️ No longer on the official site, and the official PDF has been removed.'
+        : '⚠️ No longer listed on the official site.'
+    );
+  }
   if (m.detail_url) eb.setURL(m.detail_url);
-  if (m.image_url) eb.setThumbnail(m.image_url);
+  // Prefer our mirrored copy; Bandai's CDN paths change over time
+  const thumb = m.image_storage_url || m.image_url;
+  if (thumb) eb.setThumbnail(thumb);
   return eb;
 }
 
+// Page images rendered by the scraper's `npm run previews` (FILES_ROOT/previews/<id>/page-<n>-<width>.png).
+// This bot only serves what is already there; it does not render PDFs itself.
+function cachedPreview(manualId: number, page: number): string | null {
+  const dir = path.resolve(FILES_ROOT, 'previews', String(manualId));
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return null;
+  }
+  const widths = names
+    .map((n) => n.match(new RegExp(`^page-${page}-(\\d+)\\.png$`)))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map((m) => parseInt(m[1], 10))
+    .sort((a, b) => b - a);
+  return widths.length ? path.join(dir, `page-${page}-${widths[0]}.png`) : null;
+}
+
+// Local mirror of the box art (download:images), used when there is no Storage copy
+function localImage(row: SbQ.ManualRow): string | null {
+  if (!row.image_local_path) return null;
+  const local = path.resolve(FILES_ROOT, row.image_local_path);
+  return fs.existsSync(local) ? local : null;
+}
+
 function sanitizeName(input: string): string {
   return input
     .replace(/[\/:*?"<>|]/g, '-')
@@ -98,16 +166,70 @@ function makeFileBase(row: SbQ.ManualRow): string {
   return `${row.manual_id}-${name}`;
 }
 
+// One line per manual, listing the matching pages in order: "**HG Gundam** [123]\np.4: …snippet…"
+function formatPageHits(text: string, hits: SbQ.PageHit[]) {
+  const byManual = new Map<number, SbQ.PageHit[]>();
+  for (const h of hits) byManual.set(h.manual_id, [...(byManual.get(h.manual_id) || []), h]);
+  const blocks: string[] = [];
+  for (const [id, pages] of byManual) {
+    const first = pages[0];
+    const title = `${first.grade ? first.grade + ' ' : ''}${first.name_en || first.name_jp || 'Manual'} [${id}]`;
+    const lines = pages
+      .sort((a, b) => a.page - b.page)
+      .map((p) => `p.${p.page}: ${p.snippet.replace(/\s+/g, ' ').trim()}`);
+    blocks.push([`**${title}**`, ...lines].join('\n'));
+  }
+  let desc = '';
+  for (const b of blocks) {
+    if (desc.length + b.length + 2 > 4000) break; // embed descriptions cap at 4096
+    desc += (desc ? '\n\n' : '') + b;
+  }
+  return new EmbedBuilder()
+    .setTitle(`Manual pages matching “${text}”`)
+    .setDescription(desc)
+    .setFooter({ text: 'Use /manual with the ID in brackets to get the PDF' });
+}
+
+async function handleSearch(interaction: ChatInputCommandInteraction) {
+  const text = interaction.options.getString('text', true);
+  const category = interaction.options.getString('category') ?? undefined;
+  await interaction.deferReply();
+  const hits = await SbQ.searchManualPages(text, 15, category);
+  if (!hits.length) {
+    await interaction.editReply({ content: `No manual pages mention “${text}”.` });
+    return;
+  }
+  await interaction.editReply({ embeds: [formatPageHits(text, hits)] });
+}
+
+// Page-range parts of an oversized PDF, each under ATTACH_MAX_BYTES, cached in FILES_ROOT/splits/<id>-<limit>/.
+// Returns a note instead when it would take more than SPLIT_MAX_PARTS messages or a single page is too big.
+async function splitForAttachment(abs: string, manualId: number, attachBase: string): Promise<PdfChunk[] | string> {
+  const size = fs.statSync(abs).size;
+  const tooMany = `The PDF is ${(size / 1024 / 1024).toFixed(1)} MB, too large to send in ${SPLIT_MAX_PARTS} parts.`;
+  if (Math.ceil(size / ATTACH_MAX_BYTES) > SPLIT_MAX_PARTS) return tooMany;
+  try {
+    const outDir = path.resolve(FILES_ROOT, 'splits', `${manualId}-${ATTACH_MAX_BYTES}`);
+    const chunks = await splitPdfBySize(abs, outDir, attachBase, ATTACH_MAX_BYTES);
+    return chunks.length > SPLIT_MAX_PARTS ? tooMany : chunks;
+  } catch (e: any) {
+    console.warn('[bot] split failed', manualId, e?.message || e);
+    return `The PDF could not be split under ${ATTACH_MAX_MB} MB per part.`;
+  }
+}
+
 async function handleManual(interaction: ChatInputCommandInteraction) {
   const qVal = interaction.options.getString('q', true);
   const attachOpt = interaction.options.getBoolean('attach') ?? false;
+  const pageOpt = interaction.options.getInteger('page');
+  const categoryOpt = interaction.options.getString('category') || undefined;
   await interaction.deferReply();
 
   let id: number | null = null;
   if (/^\d+$/.test(qVal)) id = parseInt(qVal, 10);
   let row = id ? await SbQ.getManualById(id) : null;
   if (!row) {
-    const sug = await SbQ.suggestManuals(qVal, 1);
+    const sug = categoryOpt ? await suggestInCategory(qVal, categoryOpt, 1) : await SbQ.suggestManuals(qVal, 1);
     if (sug.length) row = await SbQ.getManualById(parseInt(sug[0].value, 10));
   }
   if (!row) {
@@ -118,9 +240,13 @@ async function handleManual(interaction: ChatInputCommandInteraction) {
   const eb = formatEmbed(row);
   let abs: string | null = null;
   const attachBase = makeFileBase(row);
+  // With page:N the page image is the answer; the whole PDF only comes along when asked for
+  const wantPdf = !pageOpt || attachOpt;
+  // Oversized PDFs are only worth fetching when they will be split
+  const fetchMaxBytes = attachOpt && SPLIT_MAX_PARTS > 0 ? ATTACH_MAX_BYTES * SPLIT_MAX_PARTS : ATTACH_MAX_BYTES;
 
   // Local optional
-  if (ATTACH_IF_LOCAL && row.pdf_local_path) {
+  if (wantPdf && ATTACH_IF_LOCAL && row.pdf_local_path) {
     const local = path.resolve(FILES_ROOT, row.pdf_local_path);
     if (fs.existsSync(local)) abs = local;
   }
@@ -130,7 +256,7 @@ async function handleManual(interaction: ChatInputCommandInteraction) {
     const h = await http.head(url);
     const cl = h.headers['content-length'];
     const size = Array.isArray(cl) ? parseInt(cl[0] || '0', 10) : parseInt((cl as string) || '0', 10);
-    if (!Number.isNaN(size) && size > 0 && size <= ATTACH_MAX_BYTES) {
+    if (!Number.isNaN(size) && size > 0 && size <= fetchMaxBytes) {
       const tmp = path.join(process.cwd(), '.tmp');
       await fs.promises.mkdir(tmp, { recursive: true });
       const out = path.join(tmp, `${attachBase}.pdf`);
@@ -140,11 +266,11 @@ async function handleManual(interaction: ChatInputCommandInteraction) {
     return null;
   };
 
-  if (!abs && row.storage_public_url) {
+  if (wantPdf && !abs && row.storage_public_url) {
     try { abs = await tryUrl(row.storage_public_url); } catch {}
   }
 
-  if (!abs && row.storage_bucket && row.storage_path) {
+  if (wantPdf && !abs && row.storage_bucket && row.storage_path) {
     try {
       const { createClient } = await import('@supabase/supabase-js');
       const sb = createClient(process.env.SUPABASE_URL!, (process.env.SUPABASE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY)!);
@@ -154,18 +280,89 @@ async function handleManual(interaction: ChatInputCommandInteraction) {
     } catch {}
   }
 
-  let files: AttachmentBuilder[] | undefined;
+  // The PDF (or its first part) and the images are collected apart; see sendManualReply for why
+  let pdf: AttachmentBuilder | null = null;
+  let parts: PdfChunk[] = [];
+  const images: AttachmentBuilder[] = [];
   if (abs) {
     try {
       const stat = fs.statSync(abs);
       if (stat.size <= ATTACH_MAX_BYTES) {
         const name = `${attachBase}.pdf`;
-        files = [new AttachmentBuilder(abs, { name })];
+        pdf = new AttachmentBuilder(abs, { name });
+      } else if (attachOpt && SPLIT_MAX_PARTS > 0) {
+        const split = await splitForAttachment(abs, row.manual_id, attachBase);
+        if (typeof split === 'string') {
+          eb.setDescription([eb.data.description, split].filter(Boolean).join('\n'));
+        } else {
+          parts = split;
+          pdf = new AttachmentBuilder(parts[0].path, { name: path.basename(parts[0].path) });
+        }
       }
     } catch {}
   }
 
-  await interaction.editReply({ embeds: eb ? [eb] : [], files });
+  if (pageOpt) {
+    const png = cachedPreview(row.manual_id, pageOpt);
+    if (png) {
+      const name = `page-${row.manual_id}-${pageOpt}.png`;
+      images.push(new AttachmentBuilder(png, { name }));
+      eb.setImage(`attachment://${name}`);
+    } else {
+      const note =
+        row.pdf_page_count && pageOpt > row.pdf_page_count
+          ? `This manual has ${row.pdf_page_count} pages.`
+          : `Page ${pageOpt} has not been rendered yet.`;
+      eb.setDescription([eb.data.description, note].filter(Boolean).join('\n'));
+    }
+  }
+
+  // The manual's own cover beats box art when it has been rendered
+  const img = cachedPreview(row.manual_id, 1) ?? (!row.image_storage_url ? localImage(row) : null);
+  if (img) {
+    const name = `cover-${row.manual_id}${path.extname(img)}`;
+    images.push(new AttachmentBuilder(img, { name }));
+    eb.setThumbnail(`attachment://${name}`);
+  }
+
+  await sendManualReply(interaction, row, eb, pdf, parts, images);
+}
+
+function attachmentBytes(a: AttachmentBuilder): number {
+  return typeof a.attachment === 'string' ? fs.statSync(a.attachment).size : 0;
+}
+
+// Discord's limit applies to the whole message, and a PDF or first part can take ATTACH_MAX_BYTES by itself.
+// When it does not fit next to the page image and cover, it goes in a follow-up of its own, like later parts.
+async function sendManualReply(
+  interaction: ChatInputCommandInteraction,
+  row: SbQ.ManualRow,
+  eb: EmbedBuilder,
+  pdf: AttachmentBuilder | null,
+  parts: PdfChunk[],
+  images: AttachmentBuilder[]
+) {
+  const title = row.name_en || row.name_jp || `Manual ${row.manual_id}`;
+  const together = !pdf || attachmentBytes(pdf) + images.reduce((n, a) => n + attachmentBytes(a), 0) <= ATTACH_MAX_BYTES;
+  if (parts.length) {
+    const note = together
+      ? `Sent in ${parts.length} parts: ${pageRangeLabel(parts[0])} here, the rest below.`
+      : `Sent in ${parts.length} parts below.`;
+    eb.setDescription([eb.data.description, note].filter(Boolean).join('\n'));
+  }
+  const files = [...(pdf && together ? [pdf] : []), ...images];
+  await interaction.editReply({ embeds: [eb], files: files.length ? files : undefined });
+  if (pdf && !together) {
+    const content = parts.length ? `${title} — ${pageRangeLabel(parts[0])} (1/${parts.length})` : title;
+    await interaction.followUp({ content, files: [pdf] });
+  }
+  for (const [i, c] of parts.entries()) {
+    if (i === 0) continue;
+    await interaction.followUp({
+      content: `${title} — ${pageRangeLabel(c)} (${i + 1}/${parts.length})`,
+      files: [new AttachmentBuilder(c.path, { name: path.basename(c.path) })]
+    });
+  }
 }
 
 // find command removed
@@ -10,7 +10,15 @@ export const manualCmd = new SlashCommandBuilder()
       .setAutocomplete(true)
       .setRequired(true)
   )
-  .addBooleanOption((opt) => opt.setName('attach').setDescription('Upload PDF if available'));
+  .addBooleanOption((opt) => opt.setName('attach').setDescription('Upload PDF if available'))
+  .addIntegerOption((opt) => opt.setName('page').setDescription('Show just this page as an image').setMinValue(1))
+  .addStringOption((opt) => opt.setName('category').setDescription('Only suggest manuals in this category (name or ID)'));
 
-export const commands = [manualCmd];
+export const searchCmd = new SlashCommandBuilder()
+  .setName('search')
+  .setDescription('Search inside manual text (part names, steps, 日本語)')
+  .addStringOption((opt) => opt.setName('text').setDescription('Words or "an exact phrase"').setRequired(true))
+  .addStringOption((opt) => opt.setName('category').setDescription('Only manuals in this category (name or ID)'));
+
+export const commands = [manualCmd, searchCmd];
 export const commandsJson = commands.map((c) => c.toJSON());
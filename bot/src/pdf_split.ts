@@ -0,0 +1,140 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { PDFDocument } from 'pdf-lib';
+
+// Splits a PDF into consecutive page ranges that each fit under maxBytes (pdf-lib, pure JS), so a manual
+// too big for one Discord attachment can still be sent. Results are cached in outDir together with a
+// manifest; a later call for the same source file (same size and mtime) and limit reuses them.
+export type PdfChunk = {
+  path: string;
+  firstPage: number; // 1-based, inclusive
+  lastPage: number;
+  size: number;
+};
+
+type Manifest = { source: string; sourceSize: number; sourceMtimeMs: number; maxBytes: number; chunks: PdfChunk[] };
+
+export class PdfSplitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfSplitError';
+  }
+}
+
+// Aim a little under the limit so the first try of each range usually fits
+const SAFETY = 0.95;
+
+export function pageRangeLabel(c: Pick<PdfChunk, 'firstPage' | 'lastPage'>): string {
+  return c.firstPage === c.lastPage ? `page ${c.firstPage}` : `pages ${c.firstPage}–${c.lastPage}`;
+}
+
+async function readManifest(file: string): Promise<Manifest | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8')) as Manifest;
+  } catch {
+    return null;
+  }
+}
+
+async function allExist(chunks: PdfChunk[]): Promise<boolean> {
+  for (const c of chunks) {
+    try {
+      await fs.promises.access(c.path);
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Splits of the same outDir run one at a time, so a request never removes chunks another is still writing
+const inFlight = new Map<string, Promise<PdfChunk[]>>();
+
+export async function splitPdfBySize(srcAbs: string, outDir: string, baseName: string, maxBytes: number): Promise<PdfChunk[]> {
+  const key = path.resolve(outDir);
+  const next = (inFlight.get(key) ?? Promise.resolve([]))
+    .catch(() => [])
+    .then(() => splitOnce(srcAbs, outDir, baseName, maxBytes));
+  inFlight.set(key, next);
+  try {
+    return await next;
+  } finally {
+    if (inFlight.get(key) === next) inFlight.delete(key);
+  }
+}
+
+async function splitOnce(srcAbs: string, outDir: string, baseName: string, maxBytes: number): Promise<PdfChunk[]> {
+  const stat = await fs.promises.stat(srcAbs);
+  const manifestPath = path.join(outDir, 'manifest.json');
+  const cached = await readManifest(manifestPath);
+  if (
+    cached &&
+    cached.source === srcAbs &&
+    cached.sourceSize === stat.size &&
+    cached.sourceMtimeMs === stat.mtimeMs &&
+    cached.maxBytes === maxBytes &&
+    (await allExist(cached.chunks))
+  ) {
+    return cached.chunks;
+  }
+
+  const src = await PDFDocument.load(await fs.promises.readFile(srcAbs), { ignoreEncryption: true, updateMetadata: false });
+  const pageCount = src.getPageCount();
+  // Parts are written next to outDir and renamed into place once complete; chunk paths already name outDir
+  const tmpDir = `${outDir}.tmp-${process.pid}-${Date.now()}`;
+  await fs.promises.mkdir(tmpDir, { recursive: true });
+  try {
+    const chunks = await writeChunks(src, pageCount, stat.size, tmpDir, outDir, baseName, maxBytes);
+    const manifest: Manifest = { source: srcAbs, sourceSize: stat.size, sourceMtimeMs: stat.mtimeMs, maxBytes, chunks };
+    await fs.promises.writeFile(path.join(tmpDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+    await fs.promises.rm(outDir, { recursive: true, force: true });
+    await fs.promises.rename(tmpDir, outDir);
+    return chunks;
+  } finally {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+async function writeChunks(
+  src: PDFDocument,
+  pageCount: number,
+  srcSize: number,
+  writeDir: string,
+  outDir: string,
+  baseName: string,
+  maxBytes: number
+): Promise<PdfChunk[]> {
+  const chunks: PdfChunk[] = [];
+  // First guess assumes bytes are spread evenly over pages; each try then rescales by how far off it was.
+  // A range never shrinks below one page, and a single page over the limit fails the whole split.
+  let perChunk = Math.max(1, Math.floor((pageCount * maxBytes * SAFETY) / srcSize));
+  let first = 0;
+  while (first < pageCount) {
+    let count = Math.min(perChunk, pageCount - first);
+    for (;;) {
+      const part = await PDFDocument.create({ updateMetadata: false });
+      const pages = await part.copyPages(src, Array.from({ length: count }, (_, i) => first + i));
+      for (const p of pages) part.addPage(p);
+      const bytes = await part.save();
+      if (bytes.length <= maxBytes) {
+        const c: PdfChunk = {
+          path: path.join(outDir, `${baseName}-p${first + 1}-${first + count}.pdf`),
+          firstPage: first + 1,
+          lastPage: first + count,
+          size: bytes.length
+        };
+        await fs.promises.writeFile(path.join(writeDir, path.basename(c.path)), bytes);
+        chunks.push(c);
+        // Start the next range from what this one achieved
+        perChunk = Math.max(1, Math.floor((count * maxBytes * SAFETY) / bytes.length));
+        first += count;
+        break;
+      }
+      if (count === 1) {
+        throw new PdfSplitError(`page ${first + 1} alone is ${bytes.length} bytes, over the ${maxBytes} byte limit`);
+      }
+      count = Math.max(1, Math.min(count - 1, Math.floor((count * maxBytes * SAFETY) / bytes.length)));
+    }
+  }
+  return chunks;
+}
@@ -0,0 +1,30 @@
+-- Metadata scraped from the manual detail page (/menus/detail/<id>)
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS series TEXT,
+ADD COLUMN IF NOT EXISTS scale TEXT,
+ADD COLUMN IF NOT EXISTS notes TEXT,
+ADD COLUMN IF NOT EXISTS detail_scraped_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_manuals_series ON bandai.manuals (series);
+CREATE INDEX IF NOT EXISTS idx_manuals_scale ON bandai.manuals (scale);
+
+-- Every label/value pair shown on the detail page, verbatim
+CREATE TABLE IF NOT EXISTS bandai.manual_attributes (
+  manual_id INTEGER NOT NULL REFERENCES bandai.manuals (manual_id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  value TEXT,
+  PRIMARY KEY (manual_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_attributes_label ON bandai.manual_attributes (label);
+
+-- Additional files linked from the detail page (extra PDFs, parts lists, ...)
+CREATE TABLE IF NOT EXISTS bandai.manual_files (
+  manual_id INTEGER NOT NULL REFERENCES bandai.manuals (manual_id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  label TEXT,
+  kind TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (manual_id, url)
+);
@@ -0,0 +1,9 @@
+-- Checkpoint for long populate runs, one row per listing URL
+CREATE TABLE IF NOT EXISTS bandai.populate_state (
+  list_url TEXT PRIMARY KEY,
+  last_page INTEGER NOT NULL DEFAULT 0,
+  full_scan BOOLEAN NOT NULL DEFAULT false,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
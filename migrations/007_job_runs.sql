@@ -0,0 +1,17 @@
+-- One row per run of populate / download:db / supabase:upload / supabase:transfer
+CREATE TABLE IF NOT EXISTS bandai.job_runs (
+  id BIGSERIAL PRIMARY KEY,
+  job_type TEXT NOT NULL,
+  args JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'running', -- running | succeeded | failed
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  items_seen INTEGER NOT NULL DEFAULT 0,
+  items_inserted INTEGER NOT NULL DEFAULT 0,
+  items_updated INTEGER NOT NULL DEFAULT 0,
+  items_failed INTEGER NOT NULL DEFAULT 0,
+  error_samples JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_type_started ON bandai.job_runs (job_type, started_at DESC);
@@ -0,0 +1,41 @@
+-- Field-level history of manual metadata. Filled by a trigger, so every writer (populate, fix-grades, sync) is audited.
+CREATE TABLE IF NOT EXISTS bandai.manual_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  manual_id INTEGER NOT NULL REFERENCES bandai.manuals (manual_id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  source TEXT, -- application_name of the writing session
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_revisions_manual ON bandai.manual_revisions (manual_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_manual_revisions_changed_at ON bandai.manual_revisions (changed_at DESC);
+
+-- Compares the columns named in the trigger arguments and logs one row per changed field
+CREATE OR REPLACE FUNCTION bandai.record_manual_revisions() RETURNS trigger LANGUAGE plpgsql AS $$
+DECLARE
+  f text;
+  old_v text;
+  new_v text;
+BEGIN
+  FOREACH f IN ARRAY TG_ARGV LOOP
+    old_v := to_jsonb(OLD) ->> f;
+    new_v := to_jsonb(NEW) ->> f;
+    IF old_v IS DISTINCT FROM new_v THEN
+      INSERT INTO bandai.manual_revisions (manual_id, field, old_value, new_value, source)
+      VALUES (NEW.manual_id, f, old_v, new_v, NULLIF(current_setting('application_name', true), ''));
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_manuals_revisions ON bandai.manuals;
+CREATE TRIGGER trg_manuals_revisions
+AFTER UPDATE ON bandai.manuals
+FOR EACH ROW
+EXECUTE FUNCTION bandai.record_manual_revisions(
+  'detail_path', 'detail_url', 'pdf_url', 'name_jp', 'name_en', 'grade',
+  'release_date', 'release_date_text', 'image_url', 'series', 'scale', 'notes'
+);
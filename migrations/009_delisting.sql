@@ -0,0 +1,60 @@
+-- Track manuals that disappear from the official listing instead of deleting them
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS delisted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS pdf_removed_at TIMESTAMPTZ;
+
+-- Existing rows were last confirmed by whichever populate run last wrote them
+UPDATE bandai.manuals SET last_seen_at = updated_at WHERE last_seen_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_manuals_delisted_at ON bandai.manuals (delisted_at) WHERE delisted_at IS NOT NULL;
+
+-- search_manuals gains delisting columns so search results can be flagged (return type change needs a drop)
+DROP FUNCTION IF EXISTS bandai.search_manuals(text, integer);
+CREATE OR REPLACE FUNCTION bandai.search_manuals(q text, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  manual_id integer,
+  detail_url text,
+  pdf_url text,
+  pdf_local_path text,
+  name_jp text,
+  name_en text,
+  grade text,
+  release_date date,
+  release_date_text text,
+  image_url text,
+  storage_bucket text,
+  storage_path text,
+  storage_public_url text,
+  delisted_at timestamptz,
+  pdf_removed_at timestamptz,
+  score integer
+) LANGUAGE sql STABLE AS $$
+WITH toks AS (
+  SELECT DISTINCT lower(trim(tok)) AS tok
+  FROM regexp_split_to_table(q, '\s+') AS tok
+  WHERE trim(tok) <> ''
+),
+tok_count AS (
+  SELECT count(*) AS n FROM toks
+),
+scored AS (
+  SELECT m.*, 
+         COALESCE((
+           SELECT COUNT(*) FROM toks t
+           WHERE (
+             (m.name_en IS NOT NULL AND lower(m.name_en) LIKE '%'||t.tok||'%') OR
+             (m.name_jp IS NOT NULL AND lower(m.name_jp) LIKE '%'||t.tok||'%') OR
+             ((m.grade IS NOT NULL AND m.name_en IS NOT NULL) AND lower(m.grade || ' ' || m.name_en) LIKE '%'||t.tok||'%')
+           )
+         ), 0) AS score,
+         (SELECT n FROM tok_count) AS n_tokens
+  FROM bandai.manuals m
+)
+SELECT manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, image_url,
+       storage_bucket, storage_path, storage_public_url, delisted_at, pdf_removed_at, score
+FROM scored
+WHERE (SELECT n FROM tok_count) = 0 OR score > 0
+ORDER BY (score = n_tokens) DESC, score DESC, COALESCE(release_date, DATE '1900-01-01') DESC, manual_id DESC
+LIMIT p_limit;
+$$;
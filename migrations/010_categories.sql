@@ -0,0 +1,79 @@
+-- Category taxonomy from the listing's category filter, plus manual <-> category membership
+CREATE TABLE IF NOT EXISTS bandai.categories (
+  category_id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  position INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bandai.manual_categories (
+  manual_id INTEGER NOT NULL REFERENCES bandai.manuals (manual_id) ON DELETE CASCADE,
+  category_id INTEGER NOT NULL REFERENCES bandai.categories (category_id) ON DELETE CASCADE,
+  PRIMARY KEY (manual_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_categories_category ON bandai.manual_categories (category_id);
+
+-- True when the manual belongs to the category given by id or (case-insensitive) name; NULL/empty matches everything
+CREATE OR REPLACE FUNCTION bandai.manual_in_category(p_manual_id integer, p_category text)
+RETURNS boolean LANGUAGE sql STABLE AS $$
+SELECT p_category IS NULL OR trim(p_category) = '' OR EXISTS (
+  SELECT 1
+  FROM bandai.manual_categories mc
+  JOIN bandai.categories c ON c.category_id = mc.category_id
+  WHERE mc.manual_id = p_manual_id
+    AND (c.category_id::text = trim(p_category) OR lower(c.name) = lower(trim(p_category)))
+);
+$$;
+
+-- search_manuals gains an optional category filter
+DROP FUNCTION IF EXISTS bandai.search_manuals(text, integer);
+CREATE OR REPLACE FUNCTION bandai.search_manuals(q text, p_limit integer DEFAULT 20, p_category text DEFAULT NULL)
+RETURNS TABLE (
+  manual_id integer,
+  detail_url text,
+  pdf_url text,
+  pdf_local_path text,
+  name_jp text,
+  name_en text,
+  grade text,
+  release_date date,
+  release_date_text text,
+  image_url text,
+  storage_bucket text,
+  storage_path text,
+  storage_public_url text,
+  delisted_at timestamptz,
+  pdf_removed_at timestamptz,
+  score integer
+) LANGUAGE sql STABLE AS $$
+WITH toks AS (
+  SELECT DISTINCT lower(trim(tok)) AS tok
+  FROM regexp_split_to_table(q, '\s+') AS tok
+  WHERE trim(tok) <> ''
+),
+tok_count AS (
+  SELECT count(*) AS n FROM toks
+),
+scored AS (
+  SELECT m.*, 
+         COALESCE((
+           SELECT COUNT(*) FROM toks t
+           WHERE (
+             (m.name_en IS NOT NULL AND lower(m.name_en) LIKE '%'||t.tok||'%') OR
+             (m.name_jp IS NOT NULL AND lower(m.name_jp) LIKE '%'||t.tok||'%') OR
+             ((m.grade IS NOT NULL AND m.name_en IS NOT NULL) AND lower(m.grade || ' ' || m.name_en) LIKE '%'||t.tok||'%')
+           )
+         ), 0) AS score,
+         (SELECT n FROM tok_count) AS n_tokens
+  FROM bandai.manuals m
+  WHERE bandai.manual_in_category(m.manual_id, p_category)
+)
+SELECT manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, image_url,
+       storage_bucket, storage_path, storage_public_url, delisted_at, pdf_removed_at, score
+FROM scored
+WHERE (SELECT n FROM tok_count) = 0 OR score > 0
+ORDER BY (score = n_tokens) DESC, score DESC, COALESCE(release_date, DATE '1900-01-01') DESC, manual_id DESC
+LIMIT p_limit;
+$$;
@@ -0,0 +1,4 @@
+-- Mirrored box-art images (the Bandai CDN image_url changes paths over time)
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS image_local_path TEXT,
+ADD COLUMN IF NOT EXISTS image_storage_url TEXT;
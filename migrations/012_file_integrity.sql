@@ -0,0 +1,11 @@
+-- Integrity of the local PDF (recomputed by `npm run verify`) and the hash last uploaded to Storage
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS pdf_sha256 TEXT,
+ADD COLUMN IF NOT EXISTS pdf_size_bytes BIGINT,
+ADD COLUMN IF NOT EXISTS pdf_mime TEXT,
+ADD COLUMN IF NOT EXISTS pdf_valid BOOLEAN,
+ADD COLUMN IF NOT EXISTS pdf_problem TEXT,
+ADD COLUMN IF NOT EXISTS validated_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS storage_sha256 TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_manuals_pdf_invalid ON bandai.manuals (manual_id) WHERE pdf_valid = false;
@@ -0,0 +1,23 @@
+-- What the official PDF looked like when we last fetched/checked it, for cheap revalidation via HEAD
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS pdf_etag TEXT,
+ADD COLUMN IF NOT EXISTS pdf_last_modified TEXT,
+ADD COLUMN IF NOT EXISTS pdf_remote_size BIGINT,
+ADD COLUMN IF NOT EXISTS pdf_fetched_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS pdf_checked_at TIMESTAMPTZ;
+
+-- Earlier print runs: when Bandai replaces /pdf/<id>.pdf, the previous file is moved here instead of overwritten
+CREATE TABLE IF NOT EXISTS bandai.manual_versions (
+  id BIGSERIAL PRIMARY KEY,
+  manual_id INTEGER NOT NULL REFERENCES bandai.manuals (manual_id) ON DELETE CASCADE,
+  sha256 TEXT NOT NULL,
+  size_bytes BIGINT,
+  etag TEXT,
+  last_modified TEXT,
+  local_path TEXT NOT NULL, -- relative to FILES_ROOT
+  fetched_at TIMESTAMPTZ, -- when this version was downloaded (NULL if unknown)
+  replaced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (manual_id, sha256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_versions_manual ON bandai.manual_versions (manual_id, replaced_at DESC);
@@ -0,0 +1,61 @@
+-- Per-page text extracted from local PDFs (npm run extract:text), searchable with full text and substring matching
+CREATE TABLE IF NOT EXISTS bandai.manual_pages (
+  manual_id INTEGER NOT NULL REFERENCES bandai.manuals (manual_id) ON DELETE CASCADE,
+  page INTEGER NOT NULL, -- 1-based
+  content TEXT NOT NULL,
+  -- 'simple' keeps words as-is: manuals mix English part names with Japanese, which no stemmer handles
+  tsv TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED,
+  PRIMARY KEY (manual_id, page)
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_pages_tsv ON bandai.manual_pages USING gin (tsv);
+-- Japanese has no word breaks for to_tsvector; substring search falls back to trigrams
+CREATE INDEX IF NOT EXISTS idx_manual_pages_content_trgm ON bandai.manual_pages USING gin (lower(content) gin_trgm_ops);
+
+-- Which file the stored pages came from, so extraction reruns only for new or replaced PDFs
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS text_extracted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS text_sha256 TEXT;
+
+-- Page hits with a highlighted snippet. English queries use websearch syntax ("quoted phrase", -exclude, or);
+-- queries containing Japanese match the whole string as a substring.
+CREATE OR REPLACE FUNCTION bandai.search_manual_pages(q text, p_limit integer DEFAULT 20, p_category text DEFAULT NULL)
+RETURNS TABLE (
+  manual_id integer,
+  name_en text,
+  name_jp text,
+  grade text,
+  page integer,
+  snippet text,
+  rank real
+) LANGUAGE sql STABLE AS $$
+WITH query AS (
+  SELECT trim(q) AS raw,
+         lower(trim(q)) AS needle,
+         trim(q) ~ '[぀-ヿ㐀-鿿＀-￯]' AS cjk, -- kana, CJK ideographs, fullwidth forms
+         websearch_to_tsquery('simple', q) AS tsq
+),
+hits AS (
+  SELECT p.manual_id, p.page, p.content,
+         CASE WHEN qu.cjk THEN 1.0::real ELSE ts_rank_cd(p.tsv, qu.tsq) END AS rank
+  FROM bandai.manual_pages p, query qu
+  WHERE qu.raw <> ''
+    AND CASE WHEN qu.cjk THEN lower(p.content) LIKE '%' || qu.needle || '%' ELSE p.tsv @@ qu.tsq END
+    AND bandai.manual_in_category(p.manual_id, p_category)
+)
+SELECT h.manual_id, m.name_en, m.name_jp, m.grade, h.page,
+       CASE
+         WHEN qu.cjk THEN
+           CASE WHEN strpos(lower(h.content), qu.needle) > 41 THEN '…' ELSE '' END
+           || substr(h.content, greatest(1, strpos(lower(h.content), qu.needle) - 40), length(qu.needle) + 80)
+           || CASE WHEN strpos(lower(h.content), qu.needle) + length(qu.needle) + 40 <= length(h.content) THEN '…' ELSE '' END
+         ELSE
+           ts_headline('simple', h.content, qu.tsq, 'StartSel=**, StopSel=**, MinWords=8, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "')
+       END AS snippet,
+       h.rank
+FROM hits h
+JOIN bandai.manuals m ON m.manual_id = h.manual_id
+CROSS JOIN query qu
+ORDER BY h.rank DESC, COALESCE(m.release_date, DATE '1900-01-01') DESC, h.manual_id DESC, h.page ASC
+LIMIT p_limit;
+$$;
@@ -0,0 +1,12 @@
+-- What is inside the local PDF (npm run extract:meta): size in pages, first-page dimensions, embedded
+-- document info, and how many pages carry text. Scanned manuals have none and are image-only.
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS pdf_page_count INTEGER,
+ADD COLUMN IF NOT EXISTS pdf_page_width_pt REAL, -- 1 pt = 1/72 in; A4 portrait is 595 x 842
+ADD COLUMN IF NOT EXISTS pdf_page_height_pt REAL,
+ADD COLUMN IF NOT EXISTS pdf_title TEXT,
+ADD COLUMN IF NOT EXISTS pdf_created_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS pdf_text_pages INTEGER,
+ADD COLUMN IF NOT EXISTS pdf_text_based BOOLEAN,
+ADD COLUMN IF NOT EXISTS pdf_meta_sha256 TEXT, -- pdf_sha256 of the file the metadata was read from
+ADD COLUMN IF NOT EXISTS pdf_meta_at TIMESTAMPTZ;
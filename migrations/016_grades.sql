@@ -0,0 +1,13 @@
+-- Grade registry. The rows come from GRADES in src/grades.ts, which `migrate` (and supabase:sync/transfer) write
+-- after applying migrations. Product lines such as HGUC point at their base grade through family, so SQL filters
+-- can ask for "the HG family".
+CREATE TABLE IF NOT EXISTS bandai.grades (
+  code TEXT PRIMARY KEY,
+  family TEXT NOT NULL,
+  name_en TEXT NOT NULL,
+  name_jp TEXT,
+  synonyms TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_grades_family ON bandai.grades (family);
@@ -0,0 +1,18 @@
+-- Fields parsed from kit names (src/kit_names.ts) on populate and by `npm run parse:names`. series and scale
+-- already exist for the detail page; the parser only fills them where the detail page gave nothing.
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS model_number TEXT, -- e.g. RX-78-2
+ADD COLUMN IF NOT EXISTS variant_tags TEXT[] NOT NULL DEFAULT '{}'; -- e.g. {CLEAR COLOR,VER.KA}
+
+CREATE INDEX IF NOT EXISTS idx_manuals_model_number ON bandai.manuals (model_number);
+CREATE INDEX IF NOT EXISTS idx_manuals_variant_tags ON bandai.manuals USING gin (variant_tags);
+
+DROP TRIGGER IF EXISTS trg_manuals_revisions ON bandai.manuals;
+CREATE TRIGGER trg_manuals_revisions
+AFTER UPDATE ON bandai.manuals
+FOR EACH ROW
+EXECUTE FUNCTION bandai.record_manual_revisions(
+  'detail_path', 'detail_url', 'pdf_url', 'name_jp', 'name_en', 'grade',
+  'release_date', 'release_date_text', 'image_url', 'series', 'scale', 'notes',
+  'model_number', 'variant_tags'
+);
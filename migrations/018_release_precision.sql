@@ -0,0 +1,108 @@
+-- Release dates the site gives only to the month or year ("2024年11月"). release_date stays exact (day known);
+-- release_sort_date is the first day of whatever period is known, so every dated kit sorts and filters, and
+-- release_precision says how much of it to show. Calendar dates are Asia/Tokyo (src/release_dates.ts).
+-- Existing rows are filled by `npm run backfill:releases` from release_date_text.
+ALTER TABLE bandai.manuals
+ADD COLUMN IF NOT EXISTS release_sort_date DATE,
+ADD COLUMN IF NOT EXISTS release_precision TEXT CHECK (release_precision IN ('day', 'month', 'year'));
+
+CREATE INDEX IF NOT EXISTS idx_manuals_release_sort_date ON bandai.manuals (release_sort_date);
+
+-- Rows with an exact date need no parsing
+UPDATE bandai.manuals SET release_sort_date = release_date, release_precision = 'day'
+WHERE release_date IS NOT NULL AND release_sort_date IS NULL;
+
+-- search_manuals returns the new columns and orders month-only kits by their month
+DROP FUNCTION IF EXISTS bandai.search_manuals(text, integer, text);
+CREATE OR REPLACE FUNCTION bandai.search_manuals(q text, p_limit integer DEFAULT 20, p_category text DEFAULT NULL)
+RETURNS TABLE (
+  manual_id integer,
+  detail_url text,
+  pdf_url text,
+  pdf_local_path text,
+  name_jp text,
+  name_en text,
+  grade text,
+  release_date date,
+  release_date_text text,
+  release_sort_date date,
+  release_precision text,
+  image_url text,
+  storage_bucket text,
+  storage_path text,
+  storage_public_url text,
+  delisted_at timestamptz,
+  pdf_removed_at timestamptz,
+  score integer
+) LANGUAGE sql STABLE AS $$
+WITH toks AS (
+  SELECT DISTINCT lower(trim(tok)) AS tok
+  FROM regexp_split_to_table(q, '\s+') AS tok
+  WHERE trim(tok) <> ''
+),
+tok_count AS (
+  SELECT count(*) AS n FROM toks
+),
+scored AS (
+  SELECT m.*,
+         COALESCE((
+           SELECT COUNT(*) FROM toks t
+           WHERE (
+             (m.name_en IS NOT NULL AND lower(m.name_en) LIKE '%'||t.tok||'%') OR
+             (m.name_jp IS NOT NULL AND lower(m.name_jp) LIKE '%'||t.tok||'%') OR
+             ((m.grade IS NOT NULL AND m.name_en IS NOT NULL) AND lower(m.grade || ' ' || m.name_en) LIKE '%'||t.tok||'%')
+           )
+         ), 0) AS score,
+         (SELECT n FROM tok_count) AS n_tokens
+  FROM bandai.manuals m
+  WHERE bandai.manual_in_category(m.manual_id, p_category)
+)
+SELECT manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text,
+       release_sort_date, release_precision, image_url,
+       storage_bucket, storage_path, storage_public_url, delisted_at, pdf_removed_at, score
+FROM scored
+WHERE (SELECT n FROM tok_count) = 0 OR score > 0
+ORDER BY (score = n_tokens) DESC, score DESC, COALESCE(release_sort_date, DATE '1900-01-01') DESC, manual_id DESC
+LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION bandai.search_manual_pages(q text, p_limit integer DEFAULT 20, p_category text DEFAULT NULL)
+RETURNS TABLE (
+  manual_id integer,
+  name_en text,
+  name_jp text,
+  grade text,
+  page integer,
+  snippet text,
+  rank real
+) LANGUAGE sql STABLE AS $$
+WITH query AS (
+  SELECT trim(q) AS raw,
+         lower(trim(q)) AS needle,
+         trim(q) ~ '[぀-ヿ㐀-鿿＀-￯]' AS cjk, -- kana, CJK ideographs, fullwidth forms
+         websearch_to_tsquery('simple', q) AS tsq
+),
+hits AS (
+  SELECT p.manual_id, p.page, p.content,
+         CASE WHEN qu.cjk THEN 1.0::real ELSE ts_rank_cd(p.tsv, qu.tsq) END AS rank
+  FROM bandai.manual_pages p, query qu
+  WHERE qu.raw <> ''
+    AND CASE WHEN qu.cjk THEN lower(p.content) LIKE '%' || qu.needle || '%' ELSE p.tsv @@ qu.tsq END
+    AND bandai.manual_in_category(p.manual_id, p_category)
+)
+SELECT h.manual_id, m.name_en, m.name_jp, m.grade, h.page,
+       CASE
+         WHEN qu.cjk THEN
+           CASE WHEN strpos(lower(h.content), qu.needle) > 41 THEN '…' ELSE '' END
+           || substr(h.content, greatest(1, strpos(lower(h.content), qu.needle) - 40), length(qu.needle) + 80)
+           || CASE WHEN strpos(lower(h.content), qu.needle) + length(qu.needle) + 40 <= length(h.content) THEN '…' ELSE '' END
+         ELSE
+           ts_headline('simple', h.content, qu.tsq, 'StartSel=**, StopSel=**, MinWords=8, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "')
+       END AS snippet,
+       h.rank
+FROM hits h
+JOIN bandai.manuals m ON m.manual_id = h.manual_id
+CROSS JOIN query qu
+ORDER BY h.rank DESC, COALESCE(m.release_sort_date, DATE '1900-01-01') DESC, h.manual_id DESC, h.page ASC
+LIMIT p_limit;
+$$;
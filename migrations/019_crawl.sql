@@ -0,0 +1,25 @@
+-- Results of the generic crawler (`npm run crawl`): every page it visited and every PDF link it found.
+-- Rows are upserted per page as the crawl goes, so a crawl resumed across runs keeps adding to them.
+CREATE TABLE IF NOT EXISTS bandai.crawl_pages (
+  url TEXT PRIMARY KEY,
+  depth INTEGER NOT NULL, -- link hops from the base URL
+  status TEXT NOT NULL, -- 'ok', 'error' or 'robots' (disallowed by robots.txt)
+  http_status INTEGER,
+  error TEXT,
+  links_found INTEGER NOT NULL DEFAULT 0,
+  pdfs_found INTEGER NOT NULL DEFAULT 0,
+  first_visited_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  visited_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_pages_visited_at ON bandai.crawl_pages (visited_at DESC);
+
+CREATE TABLE IF NOT EXISTS bandai.crawl_pdfs (
+  pdf_url TEXT PRIMARY KEY,
+  page_url TEXT NOT NULL, -- first page the link was seen on
+  manual_id INTEGER, -- from /pdf/<id>.pdf when the URL has that shape; not a foreign key, the manual may be unknown
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_pdfs_manual ON bandai.crawl_pdfs (manual_id);
@@ -0,0 +1,10 @@
+-- Canonical URLs and duplicate content for the crawler. crawl_pages.url is the canonicalized URL that was
+-- fetched (sorted query parameters, no tracking parameters); final_url is where redirects ended and
+-- canonical_url what the page's <link rel="canonical"> names, each only when different from url.
+-- content_sha256 hashes the whitespace-collapsed body text, so pages sharing it are duplicates.
+ALTER TABLE bandai.crawl_pages
+ADD COLUMN IF NOT EXISTS final_url TEXT,
+ADD COLUMN IF NOT EXISTS canonical_url TEXT,
+ADD COLUMN IF NOT EXISTS content_sha256 TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_crawl_pages_content_sha256 ON bandai.crawl_pages (content_sha256);
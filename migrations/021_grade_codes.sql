@@ -0,0 +1,26 @@
+-- Codes a grade filter accepts, read from bandai.grades: a base grade takes its whole family (HG -> HG, HGUC,
+-- HGCE, ...), a product line only itself. Each wanted value may be a code, English name or synonym ("HIGH GRADE",
+-- "ｈｇ"); values that are no grade at all are kept as typed (upper-cased) so an exact stored grade still matches.
+CREATE OR REPLACE FUNCTION bandai.grade_codes(p_wanted text[])
+RETURNS text[] LANGUAGE sql STABLE AS $$
+WITH wanted AS (
+  SELECT upper(regexp_replace(trim(normalize(w, NFKC)), '\s+', ' ', 'g')) AS w FROM unnest(p_wanted) AS w WHERE trim(w) <> ''
+), hit AS (
+  SELECT w.w, g.code, g.family
+  FROM wanted w
+  LEFT JOIN LATERAL (
+    SELECT code, family FROM bandai.grades
+    WHERE code = w.w OR upper(name_en) = w.w OR name_jp = w.w OR w.w = ANY(synonyms)
+    ORDER BY (code = w.w) DESC, position
+    LIMIT 1
+  ) g ON true
+)
+SELECT COALESCE(array_agg(DISTINCT c), '{}')
+FROM (
+  SELECT h.w AS c FROM hit h WHERE h.code IS NULL
+  UNION ALL
+  SELECT h.code FROM hit h WHERE h.code IS NOT NULL
+  UNION ALL
+  SELECT g.code FROM hit h JOIN bandai.grades g ON g.family = h.code WHERE h.code = h.family
+) AS t(c);
+$$;
@@ -0,0 +1,73 @@
+import { withClient } from './db.js';
+import { JobRun, JobType } from './job_runs.js';
+
+// Shared driver for commands that re-derive columns of manuals already in the database (parse:names,
+// backfill:releases): select rows (honoring IDS and LIMIT), compute what each should hold, and write only the
+// rows that differ, as one job run. --dry-run / DRY_RUN=1 prints the first 20 changes instead.
+export type Backfill<Row extends { manual_id: number }, T> = {
+  name: string; // log prefix, e.g. 'parse:names'
+  jobType: JobType;
+  columns: string; // SELECT list; must include manual_id
+  where: string[]; // ANDed with the IDS filter
+  derive(r: Row): T;
+  differs(r: Row, t: T): boolean;
+  update: string; // UPDATE ... WHERE manual_id = $1; $2... are values(t)
+  values(t: T): unknown[];
+  preview(r: Row, t: T): string; // one dry-run line
+  summary?(changes: Array<{ r: Row; t: T }>): string; // appended to the "to update" count
+};
+
+export const DRY_RUN = process.argv.includes('--dry-run') || process.env.DRY_RUN === '1';
+const LIMIT = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined;
+const IDS = process.env.IDS; // e.g. "123,456"
+
+async function selectRows<Row>(columns: string, where: string[]): Promise<Row[]> {
+  const clauses = [...where];
+  const params: any[] = [];
+  if (IDS) {
+    const ids = IDS.split(',').map((s) => parseInt(s.trim(), 10)).filter((n) => Number.isFinite(n));
+    if (ids.length) {
+      clauses.push(`manual_id = ANY($${params.length + 1})`);
+      params.push(ids);
+    }
+  }
+  const sql = `
+    SELECT ${columns}
+    FROM bandai.manuals
+    ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+    ORDER BY manual_id ASC
+    ${LIMIT ? `LIMIT ${LIMIT}` : ''}
+  `;
+  const res = await withClient((c) => c.query(sql, params));
+  return res.rows as Row[];
+}
+
+export async function runBackfill<Row extends { manual_id: number }, T>(b: Backfill<Row, T>): Promise<void> {
+  const rows = await selectRows<Row>(b.columns, b.where);
+  console.log(`[${b.name}] manuals: ${rows.length}${DRY_RUN ? ' (dry run)' : ''}`);
+  const changes = rows.map((r) => ({ r, t: b.derive(r) })).filter(({ r, t }) => b.differs(r, t));
+  console.log(`[${b.name}] to update: ${changes.length}${b.summary ? ` (${b.summary(changes)})` : ''}`);
+  if (DRY_RUN) {
+    for (const { r, t } of changes.slice(0, 20)) console.log(`  ${r.manual_id} | ${b.preview(r, t)}`);
+    return;
+  }
+
+  const run = await JobRun.start(b.jobType, { limit: LIMIT ?? null, ids: IDS ?? null });
+  try {
+    run.seen = rows.length;
+    for (const [i, { r, t }] of changes.entries()) {
+      try {
+        await withClient((c) => c.query(b.update, [r.manual_id, ...b.values(t)]));
+        run.updated++;
+      } catch (e) {
+        run.fail(r.manual_id, e);
+      }
+      if ((i + 1) % 500 === 0) await run.flush();
+    }
+    console.log(`[${b.name}] updated: ${run.updated}, failed: ${run.failed}`);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
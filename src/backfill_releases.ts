@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+import './config.js';
+import { endPool } from './db.js';
+import { runBackfill } from './backfill.js';
+import { parseReleaseDate, ReleaseDate } from './release_dates.js';
+
+// Re-parses release_date_text of manuals already in the database into release_date / release_sort_date /
+// release_precision, the same way populate does for new rows. Month- and year-only releases ("2024年11月")
+// that used to be stored without a date get one. Rows whose parsed values are unchanged are not written.
+type Row = {
+  manual_id: number;
+  release_date: string | null;
+  release_date_text: string;
+  release_sort_date: string | null;
+  release_precision: string | null;
+};
+
+async function main() {
+  await runBackfill<Row, ReleaseDate>({
+    name: 'backfill:releases',
+    jobType: 'releases',
+    columns: 'manual_id, release_date, release_date_text, release_sort_date, release_precision',
+    where: ['release_date_text IS NOT NULL', "release_date_text <> ''"],
+    derive: (r) => parseReleaseDate(r.release_date_text),
+    differs: (r, p) => r.release_date !== p.date || r.release_sort_date !== p.sortDate || r.release_precision !== p.precision,
+    update: `UPDATE bandai.manuals SET release_date = $2, release_sort_date = $3, release_precision = $4, updated_at = now()
+             WHERE manual_id = $1`,
+    values: (p) => [p.date, p.sortDate, p.precision],
+    preview: (r, p) => `${r.release_date_text} -> ${p.sortDate ?? '—'} (${p.precision ?? 'unparsed'})`,
+    summary: (changes) => {
+      const byPrecision = new Map<string, number>();
+      for (const { t } of changes) byPrecision.set(t.precision ?? 'none', (byPrecision.get(t.precision ?? 'none') ?? 0) + 1);
+      return [...byPrecision].map(([k, n]) => `${k}: ${n}`).join(', ') || 'nothing to do';
+    }
+  });
+}
+
+main()
+  .catch((e) => {
+    console.error('[backfill:releases] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -0,0 +1,274 @@
+#!/usr/bin/env node
+import { EXIT_USAGE, installCliExit } from './cli_output.js';
+import { PROFILES } from './config_schema.js';
+
+// `bandai <command> [--flags]`: one entry point for the scripts in src/. Every flag maps to the environment
+// variable the script already reads (shown by --help), so `--limit 50` and `LIMIT=50` are the same thing and
+// the npm scripts keep working. The command's script is then loaded in this process.
+
+type Flag = {
+  name: string; // without the leading --
+  env: string; // variable the flag sets
+  arg?: 'number' | 'string'; // takes a value; without it the flag is a switch that sets `value`
+  value?: string; // what a switch sets (default '1')
+  help: string;
+};
+
+type Command = {
+  name: string;
+  summary: string;
+  usage?: string; // positional arguments
+  positionals?: 'none' | 'optional' | 'required';
+  script: string | ((env: NodeJS.ProcessEnv) => string);
+  flags: Flag[];
+  // How --dry-run is honored: env it sets; 'read-only' commands accept it as is. Absent: not supported.
+  dryRun?: Record<string, string> | 'read-only';
+  writeEnv?: Record<string, string>; // set unless --dry-run (scripts that only preview when run on their own)
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const HTTP_FLAGS: Flag[] = [
+  { name: 'concurrency', env: 'CONCURRENCY', arg: 'number', help: 'parallel requests' },
+  { name: 'delay-ms', env: 'DELAY_MS', arg: 'number', help: 'minimum spacing between requests to the same host' },
+  { name: 'timeout-ms', env: 'TIMEOUT_MS', arg: 'number', help: 'request timeout' },
+  { name: 'user-agent', env: 'USER_AGENT', arg: 'string', help: 'User-Agent header' },
+  { name: 'ignore-robots', env: 'RESPECT_ROBOTS', value: '0', help: 'skip the robots.txt check' },
+  { name: 'no-cache', env: 'HTTP_CACHE', value: '0', help: 'bypass the on-disk HTTP cache' }
+];
+
+const SELECT_FLAGS: Flag[] = [
+  { name: 'ids', env: 'IDS', arg: 'string', help: 'only these manual ids, e.g. 4010,4011' },
+  { name: 'limit', env: 'LIMIT', arg: 'number', help: 'at most this many manuals' }
+];
+
+const COMMANDS: Command[] = [
+  {
+    name: 'populate',
+    summary: 'scrape the manual listing into bandai.manuals (incremental)',
+    usage: '[list-url]',
+    positionals: 'optional',
+    script: './scrape_bandai.js',
+    dryRun: { DRY_RUN: '1' },
+    flags: [
+      { name: 'full', env: 'FULL', help: 'scan every listing page, ignoring the incremental stop' },
+      { name: 'details', env: 'DETAILS', help: "also scrape each new or changed manual's detail page" },
+      { name: 'download', env: 'DOWNLOAD', help: 'also download PDFs to FILES_ROOT/SUBDIR' },
+      { name: 'resume', env: 'RESUME', help: 'continue an interrupted run from its last page' },
+      { name: 'mark-delisted', env: 'MARK_DELISTED', help: 'after a complete full scan, flag manuals that were not seen' },
+      { name: 'stop-after', env: 'STOP_AFTER_KNOWN_PAGES', arg: 'number', help: 'incremental stop: pages in a row with no changes' },
+      { name: 'url', env: 'BASE_LIST_URL', arg: 'string', help: 'listing URL to walk instead of all categories' },
+      { name: 'subdir', env: 'SUBDIR', arg: 'string', help: 'PDF folder under FILES_ROOT (default manuals)' },
+      ...HTTP_FLAGS
+    ]
+  },
+  {
+    name: 'download',
+    summary: 'download PDFs for manuals in the database',
+    script: './download_from_db.js',
+    dryRun: { DRY_RUN: '1' },
+    flags: [
+      { name: 'all', env: 'ONLY_MISSING', value: '0', help: "check every manual's PDF, not only those never downloaded" },
+      { name: 'revalidate', env: 'REVALIDATE', help: 'HEAD downloaded PDFs and archive replaced versions' },
+      { name: 'revalidate-after-days', env: 'REVALIDATE_AFTER_DAYS', arg: 'number', help: 'with --revalidate (default 30)' },
+      { name: 'grade', env: 'GRADE', arg: 'string', help: 'grade codes, e.g. HG,MG (a family includes its lines)' },
+      { name: 'category', env: 'CATEGORY', arg: 'string', help: 'category ids or names' },
+      ...SELECT_FLAGS,
+      { name: 'subdir', env: 'SUBDIR', arg: 'string', help: 'PDF folder under FILES_ROOT (default manuals)' },
+      { name: 'concurrency', env: 'DL_CONCURRENCY', arg: 'number', help: 'parallel downloads (default 3)' },
+      ...HTTP_FLAGS.filter((f) => f.name === 'delay-ms' || f.name === 'timeout-ms' || f.name === 'user-agent')
+    ]
+  },
+  {
+    name: 'upload',
+    summary: 'upload local PDFs to Supabase Storage and save their public URLs',
+    script: './upload_to_supabase.js',
+    dryRun: { DRY_RUN: '1' },
+    flags: [
+      { name: 'limit', env: 'LIMIT', arg: 'number', help: 'at most this many manuals' },
+      { name: 'bucket', env: 'SUPABASE_BUCKET', arg: 'string', help: 'Storage bucket (default manuals)' },
+      { name: 'prefix', env: 'SUPABASE_PREFIX', arg: 'string', help: 'object key prefix' },
+      { name: 'overwrite', env: 'OVERWRITE', help: 'replace objects that already exist' },
+      { name: 'concurrency', env: 'UPLOAD_CONCURRENCY', arg: 'number', help: 'parallel uploads (default 2)' }
+    ]
+  },
+  {
+    name: 'export',
+    summary: 'write bandai.manuals to a CSV file',
+    script: './export_csv.js',
+    dryRun: { DRY_RUN: '1' },
+    flags: [
+      { name: 'out-dir', env: 'CSV_OUT_DIR', arg: 'string', help: 'output folder (default exports)' },
+      { name: 'file', env: 'CSV_OUT_FILE', arg: 'string', help: 'file name (default manuals.csv)' },
+      { name: 'batch', env: 'CSV_BATCH', arg: 'number', help: 'rows per query (default 1000)' }
+    ]
+  },
+  {
+    name: 'migrate',
+    summary: 'apply SQL migrations to the database',
+    script: './migrate.js',
+    dryRun: { DRY_RUN: '1' },
+    flags: []
+  },
+  {
+    name: 'sync',
+    summary: 'apply migrations to Supabase Postgres and copy data from the source database',
+    script: './supabase_sync.js',
+    dryRun: { DRY_RUN: '1' },
+    flags: [
+      { name: 'data-only', env: 'SYNC_DATA_ONLY', help: 'skip the migrations' },
+      { name: 'batch', env: 'BATCH_SIZE', arg: 'number', help: 'rows per batch (default 200)' }
+    ]
+  },
+  {
+    name: 'fix-grades',
+    summary: 'correct stored grades in Supabase against the grade registry',
+    script: './supabase_fix_grades.js',
+    dryRun: { APPLY: '0' },
+    writeEnv: { APPLY: '1' },
+    flags: [
+      { name: 'limit', env: 'LIMIT', arg: 'number', help: 'at most this many manuals (default 10000)' },
+      { name: 'concurrency', env: 'CONCURRENCY', arg: 'number', help: 'parallel updates (default 4)' }
+    ]
+  },
+  {
+    name: 'config',
+    summary: 'show the effective configuration and where each value came from',
+    usage: 'print',
+    positionals: 'optional',
+    script: './config_print.js',
+    dryRun: 'read-only',
+    flags: [{ name: 'all', env: 'CONFIG_ALL', help: 'also list settings that nothing sets' }]
+  },
+  {
+    name: 'search',
+    summary: 'search kits by name, or inside the manuals with --text',
+    usage: '<words>',
+    positionals: 'required',
+    script: (env) => (env.SEARCH_TEXT === '1' ? './search_text.js' : './search_manuals.js'),
+    dryRun: 'read-only',
+    flags: [
+      { name: 'text', env: 'SEARCH_TEXT', help: 'search the extracted page text instead of kit names' },
+      { name: 'grade', env: 'GRADE', arg: 'string', help: 'only this grade (kit search)' },
+      { name: 'category', env: 'CATEGORY', arg: 'string', help: 'category name or id' },
+      { name: 'limit', env: 'LIMIT', arg: 'number', help: 'results (default 20)' }
+    ]
+  }
+];
+
+type Parsed = { env: Record<string, string>; positionals: string[]; dryRun: boolean; json: boolean; help: boolean };
+
+function parseArgs(cmd: Command, argv: string[]): Parsed {
+  const out: Parsed = { env: {}, positionals: [], dryRun: false, json: false, help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--') {
+      out.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!a.startsWith('--')) {
+      if (a === '-h') out.help = true;
+      else out.positionals.push(a);
+      continue;
+    }
+    const [name, inline] = a.slice(2).split(/=(.*)/s, 2) as [string, string | undefined];
+    if (name === 'help') out.help = true;
+    else if (name === 'json') out.json = true;
+    else if (name === 'dry-run') out.dryRun = true;
+    else if (name === 'profile') {
+      // Which profiles section of bandai.config.(json|ts) applies; read by src/config.ts
+      const value = inline ?? argv[++i];
+      if (!(PROFILES as readonly string[]).includes(value)) throw new UsageError(`--profile must be one of ${PROFILES.join(', ')}`);
+      out.env.BANDAI_PROFILE = value;
+    } else {
+      const flag = cmd.flags.find((f) => f.name === name);
+      if (!flag) throw new UsageError(`unknown flag --${name} for ${cmd.name}`);
+      if (!flag.arg) {
+        if (inline !== undefined) throw new UsageError(`--${name} takes no value`);
+        out.env[flag.env] = flag.value ?? '1';
+        continue;
+      }
+      const value = inline ?? argv[++i];
+      if (value === undefined || (inline === undefined && value.startsWith('--'))) throw new UsageError(`--${name} needs a value`);
+      if (flag.arg === 'number' && !/^\d+(\.\d+)?$/.test(value)) throw new UsageError(`--${name} must be a number, got "${value}"`);
+      out.env[flag.env] = value;
+    }
+  }
+  if (out.help) return out;
+  if (out.dryRun && !cmd.dryRun) throw new UsageError(`${cmd.name} has no --dry-run`);
+  if (cmd.positionals === 'required' && !out.positionals.length) throw new UsageError(`${cmd.name} needs ${cmd.usage}`);
+  if ((cmd.positionals ?? 'none') === 'none' && out.positionals.length) {
+    throw new UsageError(`${cmd.name} takes no arguments, got "${out.positionals.join(' ')}"`);
+  }
+  return out;
+}
+
+function printHelp() {
+  console.log('Usage: bandai <command> [--flags]\n');
+  console.log('Commands:');
+  for (const c of COMMANDS) console.log(`  ${c.name.padEnd(12)} ${c.summary}`);
+  console.log('\nEvery command takes --help, --json (one JSON result on stdout, logs on stderr) and, where it writes');
+  console.log('anything, --dry-run. Exit codes: 0 ok, 1 failed, 2 usage error, 3 finished with failed items.');
+  console.log(`--profile <${PROFILES.join('|')}> picks the profile section of bandai.config.(json|ts).`);
+  console.log('Run `bandai <command> --help` for its flags and the environment variable each one sets.');
+}
+
+function printCommandHelp(cmd: Command) {
+  console.log(`Usage: bandai ${cmd.name}${cmd.usage ? ` ${cmd.usage}` : ''} [--flags]\n`);
+  console.log(`${cmd.summary}\n`);
+  const rows: Array<[string, string, string]> = cmd.flags.map((f) => [
+    `--${f.name}${f.arg ? ` <${f.arg === 'number' ? 'n' : 'value'}>` : ''}`,
+    f.arg ? f.env : `${f.env}=${f.value ?? '1'}`,
+    f.help
+  ]);
+  if (cmd.dryRun && cmd.dryRun !== 'read-only') {
+    const env = Object.entries(cmd.dryRun).map(([k, v]) => `${k}=${v}`).join(' ');
+    rows.push(['--dry-run', env, 'show what would change without writing']);
+  }
+  rows.push(['--profile <name>', 'BANDAI_PROFILE', `config file profile: ${PROFILES.join(', ')} (default local)`]);
+  rows.push(['--json', '', 'print the result as JSON on stdout']);
+  const w0 = Math.max(...rows.map((r) => r[0].length));
+  const w1 = Math.max(...rows.map((r) => r[1].length));
+  console.log('Flags (and the environment variable each one sets):');
+  for (const [flag, env, help] of rows) console.log(`  ${flag.padEnd(w0)}  ${env.padEnd(w1)}  ${help}`);
+}
+
+async function main() {
+  const [name, ...rest] = process.argv.slice(2);
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    printHelp();
+    return;
+  }
+  const cmd = COMMANDS.find((c) => c.name === name);
+  if (!cmd) throw new UsageError(`unknown command "${name}"`);
+  const args = parseArgs(cmd, rest);
+  if (args.help) {
+    printCommandHelp(cmd);
+    return;
+  }
+
+  // Flags win over the environment (and .env)
+  const env = { ...args.env, ...(args.dryRun && cmd.dryRun !== 'read-only' ? cmd.dryRun : cmd.writeEnv) };
+  Object.assign(process.env, env);
+  const script = typeof cmd.script === 'string' ? cmd.script : cmd.script(process.env);
+  // Scripts read their own argv for positionals and a few switches; they see themselves as the entry point
+  const dryRunArg = args.dryRun && cmd.dryRun !== 'read-only' ? ['--dry-run'] : [];
+  process.argv = [process.argv[0], script, ...args.positionals, ...dryRunArg];
+  installCliExit(cmd.name, args.json);
+  await import(script);
+}
+
+main().catch((e) => {
+  if (e instanceof UsageError) {
+    console.error(`bandai: ${e.message}`);
+    console.error('Run `bandai --help` for usage.');
+    process.exit(EXIT_USAGE);
+  }
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import fs from 'node:fs';
+
+// Exit codes of `bandai` commands (src/cli.ts). Scripts already exit 1 on failure; usage errors are 2, and a
+// run that finished but failed some items (`failed` > 0 in its report) exits 3 so cron and CI can tell.
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_PARTIAL = 3;
+
+// What the current command produced (job counters, rows written, search hits, ...). Scripts add to it with
+// report(); outside the CLI it is collected and never printed.
+const result: Record<string, unknown> = {};
+
+export function report(fields: Record<string, unknown>) {
+  Object.assign(result, fields);
+}
+
+// Called by the CLI before it loads a command. With --json, stdout carries exactly one JSON object written at
+// exit and all progress logging moves to stderr.
+export function installCliExit(command: string, json: boolean) {
+  if (json) {
+    console.log = console.error;
+    console.info = console.error;
+  }
+  process.on('exit', (code) => {
+    if (code === EXIT_OK && Number(result.failed) > 0) process.exitCode = code = EXIT_PARTIAL;
+    if (json) fs.writeSync(1, JSON.stringify({ command, ok: code === EXIT_OK, exitCode: code, ...result }) + '\n');
+  });
+}
@@ -0,0 +1,122 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import dotenv from 'dotenv';
+import { EXIT_USAGE } from './cli_output.js';
+import {
+  BandaiConfig,
+  BandaiConfigFile,
+  ConfigError,
+  fields,
+  parseEnvValue,
+  Profile,
+  PROFILES,
+  validateConfigFile
+} from './config_schema.js';
+
+// Loads the configuration once per process, on first import, and exports it into process.env so every script
+// keeps reading its variables as before. Precedence, lowest first: schema default, bandai.config.(json|ts),
+// the file's section for the active profile, .env, the environment (and `bandai` flags, which set it).
+// Importing this module replaces `import 'dotenv/config'`.
+
+export type ConfigSource = 'default' | 'file' | `profile:${Profile}` | '.env' | 'env' | 'unset';
+
+export type ResolvedSetting = {
+  path: string;
+  env: string;
+  value: string | number | boolean | undefined;
+  source: ConfigSource;
+  secret: boolean;
+};
+
+const CANDIDATES = ['bandai.config.ts', 'bandai.config.json'];
+
+function findConfigFile(): string | null {
+  if (process.env.BANDAI_CONFIG) {
+    const file = path.resolve(process.env.BANDAI_CONFIG);
+    if (!fs.existsSync(file)) throw new ConfigError(file, ['BANDAI_CONFIG points to a missing file']);
+    return file;
+  }
+  const found = CANDIDATES.map((f) => path.resolve(f)).filter((f) => fs.existsSync(f));
+  if (found.length > 1) throw new ConfigError(found.join(', '), ['found both; keep one']);
+  return found[0] ?? null;
+}
+
+async function readConfigFile(file: string): Promise<BandaiConfigFile> {
+  let data: unknown;
+  if (file.endsWith('.json')) {
+    try {
+      data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e: any) {
+      throw new ConfigError(file, [`invalid JSON: ${e?.message ?? e}`]);
+    }
+  } else {
+    // Needs a TypeScript-aware loader (tsx); compiled builds (node dist/...) should use bandai.config.json
+    try {
+      data = (await import(pathToFileURL(file).href)).default;
+    } catch (e: any) {
+      throw new ConfigError(file, [`could not load: ${e?.message ?? e}`]);
+    }
+  }
+  return validateConfigFile(data, file);
+}
+
+function activeProfile(): Profile {
+  const p = process.env.BANDAI_PROFILE || 'local';
+  if (!(PROFILES as readonly string[]).includes(p)) {
+    throw new ConfigError('environment', [`BANDAI_PROFILE=${p} is not a profile (use ${PROFILES.join(', ')})`]);
+  }
+  return p as Profile;
+}
+
+function serialize(value: string | number | boolean): string {
+  return typeof value === 'boolean' ? (value ? '1' : '0') : String(value);
+}
+
+async function load() {
+  // Which variables came from the shell, which from .env
+  const shell = new Set(Object.entries(process.env).filter(([, v]) => v !== '').map(([k]) => k));
+  dotenv.config();
+
+  const profile = activeProfile();
+  const file = findConfigFile();
+  const data = file ? await readConfigFile(file) : {};
+  const section = data.profiles?.[profile] ?? {};
+
+  const values = {} as Record<string, Record<string, unknown>>;
+  const settings: ResolvedSetting[] = [];
+  const problems: string[] = [];
+  for (const { group, key, path: p, field } of fields()) {
+    let value: string | number | boolean | undefined = field.default;
+    let source: ConfigSource = value === undefined ? 'unset' : 'default';
+    const fromFile = (data as any)[group]?.[key];
+    if (fromFile !== undefined) [value, source] = [fromFile, 'file'];
+    const fromProfile = (section as any)[group]?.[key];
+    if (fromProfile !== undefined) [value, source] = [fromProfile, `profile:${profile}`];
+    try {
+      const fromEnv = parseEnvValue(field, process.env[field.env]);
+      if (fromEnv !== undefined) [value, source] = [fromEnv, shell.has(field.env) ? 'env' : '.env'];
+    } catch (e) {
+      if (!(e instanceof ConfigError)) throw e;
+      problems.push(...e.problems);
+    }
+    (values[group] ??= {})[key] = value;
+    settings.push({ path: p, env: field.env, value, source, secret: !!field.secret });
+    // Booleans are normalized to 1/0, which is what the scripts compare against
+    if (value !== undefined) process.env[field.env] = serialize(value);
+  }
+  if (problems.length) throw new ConfigError('environment', problems);
+  return { config: values as BandaiConfig, settings, file, profile };
+}
+
+const loaded = await load().catch((e) => {
+  if (!(e instanceof ConfigError)) throw e;
+  console.error(`[config] ${e.source}:`);
+  for (const p of e.problems) console.error(`  - ${p}`);
+  process.exit(EXIT_USAGE);
+});
+
+export const config: BandaiConfig = loaded.config;
+export const configSettings: ResolvedSetting[] = loaded.settings;
+export const configFile: string | null = loaded.file;
+export const configProfile: Profile = loaded.profile;
@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+import { configFile, configProfile, configSettings } from './config.js';
+import { EXIT_USAGE, report } from './cli_output.js';
+
+// npm run config:print [-- --all] or `bandai config print [--all]`: the effective value of every setting and where
+// it came from. Settings nobody set and that have no default are listed only with --all; secrets are masked.
+const ALL = process.argv.includes('--all') || process.env.CONFIG_ALL === '1';
+
+function shown(value: string | number | boolean | undefined, secret: boolean): string {
+  if (value === undefined) return '-';
+  if (secret) return '********';
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function main() {
+  const sub = process.argv[2];
+  if (sub && sub !== 'print') {
+    console.error(`[config] unknown subcommand "${sub}" (use print)`);
+    process.exit(EXIT_USAGE);
+  }
+  const rows = configSettings.filter((s) => ALL || s.source !== 'unset');
+  console.log(`[config] file: ${configFile ?? 'none (bandai.config.json or bandai.config.ts)'}, profile: ${configProfile}`);
+  const w0 = Math.max(...rows.map((s) => s.path.length));
+  const w1 = Math.max(...rows.map((s) => s.env.length));
+  const values = rows.map((s) => shown(s.value, s.secret));
+  const w2 = Math.min(48, Math.max(...values.map((v) => v.length)));
+  rows.forEach((s, i) => console.log(`${s.path.padEnd(w0)}  ${s.env.padEnd(w1)}  ${values[i].padEnd(w2)}  ${s.source}`));
+  report({
+    file: configFile,
+    profile: configProfile,
+    settings: rows.map((s) => ({ ...s, value: s.secret && s.value !== undefined ? '********' : s.value }))
+  });
+}
+
+main();
@@ -0,0 +1,212 @@
+// Settings that bandai.config.(json|ts) can hold, grouped as they appear in the file. Each one is backed by the
+// environment variable the scripts read, which also overrides it. Per-run options (LIMIT, IDS, --full, ...) stay
+// flags/env only. A setting without a default is left unset, so code that checks for presence (db.ts prefers
+// PG* fields over DATABASE_URL) keeps working.
+
+type Kind = 'string' | 'number' | 'boolean';
+type KindType<K extends Kind> = K extends 'number' ? number : K extends 'boolean' ? boolean : string;
+
+export type Field<K extends Kind = Kind> = {
+  env: string;
+  kind: K;
+  default?: KindType<K>;
+  secret?: boolean; // masked by `config print`
+  help: string;
+};
+
+function str(env: string, help: string, def?: string, secret = false): Field<'string'> {
+  return { env, kind: 'string', default: def, help, secret };
+}
+function num(env: string, help: string, def?: number): Field<'number'> {
+  return { env, kind: 'number', default: def, help };
+}
+function bool(env: string, help: string, def?: boolean): Field<'boolean'> {
+  return { env, kind: 'boolean', default: def, help };
+}
+
+export const SCHEMA = {
+  database: {
+    url: str('DATABASE_URL', 'Postgres connection string (ignored when PG* fields are set)', undefined, true),
+    host: str('PGHOST', 'Postgres host (default 127.0.0.1)'),
+    port: num('PGPORT', 'Postgres port (default 5432)'),
+    user: str('PGUSER', 'Postgres user (default postgres)'),
+    password: str('PGPASSWORD', 'Postgres password', undefined, true),
+    database: str('PGDATABASE', 'database name (default postgres)'),
+    ssl: str('PGSSL', 'any value turns on SSL'),
+    poolMax: num('PGPOOL_MAX', 'connections per process', 10)
+  },
+  supabase: {
+    url: str('SUPABASE_URL', 'project URL, e.g. https://<ref>.supabase.co'),
+    key: str('SUPABASE_KEY', 'service role key', undefined, true),
+    bucket: str('SUPABASE_BUCKET', 'Storage bucket for PDFs and images', 'manuals'),
+    prefix: str('SUPABASE_PREFIX', 'object key prefix inside the bucket', ''),
+    databaseUrl: str('SUPABASE_DATABASE_URL', 'Supabase Postgres connection string (sync target)', undefined, true),
+    pgHost: str('SUPABASE_PGHOST', 'Supabase Postgres host (sync target)'),
+    pgPort: num('SUPABASE_PGPORT', 'Supabase Postgres port'),
+    pgUser: str('SUPABASE_PGUSER', 'Supabase Postgres user'),
+    pgPassword: str('SUPABASE_PGPASSWORD', 'Supabase Postgres password', undefined, true),
+    pgDatabase: str('SUPABASE_PGDATABASE', 'Supabase Postgres database'),
+    pgSsl: str('SUPABASE_PGSSL', 'any value turns on SSL')
+  },
+  files: {
+    root: str('FILES_ROOT', 'where PDFs, images and previews are stored', 'downloads'),
+    subdir: str('SUBDIR', 'PDF folder under root', 'manuals'),
+    imagesSubdir: str('IMAGES_SUBDIR', 'box-art folder under root', 'images'),
+    previewWidth: num('PREVIEW_WIDTH', 'pixel width of rendered pages', 1000)
+  },
+  http: {
+    concurrency: num('CONCURRENCY', 'parallel page requests (crawl, populate)', 4),
+    delayMs: num('DELAY_MS', 'minimum spacing between requests to the same host', 300),
+    timeoutMs: num('TIMEOUT_MS', 'request timeout', 30000),
+    userAgent: str('USER_AGENT', 'User-Agent header', 'bandai-manuals-scraper/0.2'),
+    rateBurst: num('RATE_BURST', 'requests per host allowed back-to-back', 1),
+    maxRetries: num('MAX_RETRIES', 'retries on 429/5xx/network errors', 4),
+    backoffBaseMs: num('BACKOFF_BASE_MS', 'first retry delay', 1000),
+    backoffMaxMs: num('BACKOFF_MAX_MS', 'longest retry delay', 60000),
+    maxRetryAfterMs: num('MAX_RETRY_AFTER_MS', 'longest Retry-After to wait for', 600000),
+    respectRobots: bool('RESPECT_ROBOTS', 'honor robots.txt and Crawl-delay', true),
+    cache: bool('HTTP_CACHE', 'on-disk cache for HTML pages', true),
+    cacheDir: str('HTTP_CACHE_DIR', 'cache folder', 'data/http-cache'),
+    cacheTtlMs: num('HTTP_CACHE_TTL_MS', 'serve cached pages younger than this without a request', 0)
+  },
+  populate: {
+    listUrl: str('BASE_LIST_URL', 'listing URL (default: all categories, newest first)'),
+    stopAfterKnownPages: num('STOP_AFTER_KNOWN_PAGES', 'incremental stop after this many unchanged pages', 2),
+    delistMaxRatio: num('DELIST_MAX_RATIO', 'skip delisting when it would flag more than this share', 0.2)
+  },
+  download: {
+    concurrency: num('DL_CONCURRENCY', 'parallel PDF/image downloads', 3),
+    revalidateAfterDays: num('REVALIDATE_AFTER_DAYS', 'download --revalidate re-checks PDFs older than this', 30)
+  },
+  upload: {
+    concurrency: num('UPLOAD_CONCURRENCY', 'parallel Storage uploads', 2),
+    overwrite: bool('OVERWRITE', 'replace objects that already exist', false)
+  },
+  verify: {
+    concurrency: num('VERIFY_CONCURRENCY', 'parallel file hashing', 2)
+  },
+  crawl: {
+    baseUrl: str('BASE_URL', 'where the generic crawler starts', 'https://manual.bandai-hobby.net/'),
+    frontier: str('CRAWL_FRONTIER', 'saved queue of an unfinished crawl', 'data/crawl-frontier.json')
+  },
+  bot: {
+    token: str('DISCORD_TOKEN', 'Discord bot token', undefined, true),
+    appId: str('DISCORD_APP_ID', 'Discord application id'),
+    guildId: str('DISCORD_GUILD_ID', 'register commands in this guild only'),
+    attachIfLocal: bool('ATTACH_IF_LOCAL', 'attach local PDFs automatically', false),
+    attachMaxMb: num('ATTACH_MAX_MB', 'attachment size cap', 8),
+    splitMaxParts: num('SPLIT_MAX_PARTS', 'send larger PDFs in at most this many parts (0: never split)', 10),
+    alwaysUpload: bool('ALWAYS_UPLOAD', 'upload to Storage before linking', false),
+    downloadOnDemand: bool('DOWNLOAD_ON_DEMAND', 'fetch missing PDFs when asked for', false),
+    coverPreviews: bool('COVER_PREVIEWS', 'show the rendered cover instead of box art', true),
+    forceSupabase: bool('FORCE_SUPABASE', 'query Supabase even when Postgres is configured', false)
+  }
+} as const;
+
+export type Schema = typeof SCHEMA;
+export type Group = keyof Schema;
+
+// The effective configuration: every setting, undefined when it has no default and nothing sets it
+export type BandaiConfig = {
+  [G in Group]: { -readonly [K in keyof Schema[G]]: Schema[G][K] extends Field<infer T> ? KindType<T> | undefined : never };
+};
+
+type Partial2<T> = { [G in keyof T]?: { [K in keyof T[G]]?: Exclude<T[G][K], undefined> } };
+
+export const PROFILES = ['local', 'supabase', 'bot'] as const;
+export type Profile = (typeof PROFILES)[number];
+
+// Shape of bandai.config.json / the default export of bandai.config.ts
+export type BandaiConfigFile = Partial2<BandaiConfig> & { profiles?: { [P in Profile]?: Partial2<BandaiConfig> } };
+
+// For bandai.config.ts: `export default defineConfig({ ... })` type-checks the file
+export function defineConfig(c: BandaiConfigFile): BandaiConfigFile {
+  return c;
+}
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[]
+  ) {
+    super(`${source}: ${problems.join('; ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export function fields(): Array<{ group: Group; key: string; path: string; field: Field }> {
+  return (Object.keys(SCHEMA) as Group[]).flatMap((group) =>
+    Object.entries(SCHEMA[group]).map(([key, field]) => ({ group, key, path: `${group}.${key}`, field: field as Field }))
+  );
+}
+
+// Problems in one section of the file (the top level or a profile), as "path: what is wrong"
+function checkSection(section: unknown, at: string, allowProfiles: boolean): string[] {
+  if (!isObject(section)) return [`${at || 'config'} must be an object`];
+  const problems: string[] = [];
+  for (const [group, values] of Object.entries(section)) {
+    const where = at ? `${at}.${group}` : group;
+    if (group === 'profiles' && allowProfiles) {
+      if (!isObject(values)) {
+        problems.push(`${where} must be an object`);
+        continue;
+      }
+      for (const [name, profile] of Object.entries(values)) {
+        if (!(PROFILES as readonly string[]).includes(name)) {
+          problems.push(`${where}.${name}: unknown profile (use ${PROFILES.join(', ')})`);
+        } else {
+          problems.push(...checkSection(profile, `${where}.${name}`, false));
+        }
+      }
+      continue;
+    }
+    if (group === '$schema') continue;
+    const schema = (SCHEMA as Record<string, Record<string, Field>>)[group];
+    if (!schema) {
+      problems.push(`${where}: unknown section`);
+      continue;
+    }
+    if (!isObject(values)) {
+      problems.push(`${where} must be an object`);
+      continue;
+    }
+    for (const [key, value] of Object.entries(values)) {
+      const field = schema[key];
+      if (!field) problems.push(`${where}.${key}: unknown setting`);
+      else if (!matchesKind(field.kind, value)) problems.push(`${where}.${key}: expected ${field.kind}, got ${JSON.stringify(value)}`);
+    }
+  }
+  return problems;
+}
+
+export function validateConfigFile(data: unknown, source: string): BandaiConfigFile {
+  const problems = checkSection(data, '', true);
+  if (problems.length) throw new ConfigError(source, problems);
+  return data as BandaiConfigFile;
+}
+
+// Environment values arrive as text; returns undefined for unset/empty and throws on values of the wrong kind
+export function parseEnvValue(field: Field, raw: string | undefined): string | number | boolean | undefined {
+  if (raw === undefined || raw === '') return undefined;
+  if (field.kind === 'number') {
+    const n = Number(raw);
+    if (!Number.isFinite(n)) throw new ConfigError('environment', [`${field.env}=${raw} is not a number`]);
+    return n;
+  }
+  if (field.kind === 'boolean') {
+    const v = raw.trim().toLowerCase();
+    if (v === '1' || v === 'true') return true;
+    if (v === '0' || v === 'false') return false;
+    throw new ConfigError('environment', [`${field.env}=${raw} is not a boolean (use 1/0 or true/false)`]);
+  }
+  return raw;
+}
+
+function matchesKind(kind: Kind, value: unknown): boolean {
+  if (kind === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeof value === kind;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,71 @@
+import { withClient } from './db.js';
+import { CrawledPage, DuplicatePages } from './types.js';
+
+// Writes crawler results to bandai.crawl_pages / bandai.crawl_pdfs (migrations/019_crawl.sql, 020_crawl_canonical.sql).
+// Returns how many of the page's PDF links were new.
+export async function saveCrawledPage(page: CrawledPage): Promise<number> {
+  return withClient(async (c) => {
+    await c.query('BEGIN');
+    try {
+      await c.query(
+        `INSERT INTO bandai.crawl_pages
+           (url, depth, status, http_status, error, links_found, pdfs_found, final_url, canonical_url, content_sha256)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+         ON CONFLICT (url) DO UPDATE SET
+           depth = LEAST(bandai.crawl_pages.depth, EXCLUDED.depth),
+           status = EXCLUDED.status,
+           http_status = EXCLUDED.http_status,
+           error = EXCLUDED.error,
+           links_found = EXCLUDED.links_found,
+           pdfs_found = EXCLUDED.pdfs_found,
+           final_url = EXCLUDED.final_url,
+           canonical_url = EXCLUDED.canonical_url,
+           content_sha256 = EXCLUDED.content_sha256,
+           visited_at = now()`,
+        [
+          page.url,
+          page.depth,
+          page.status,
+          page.httpStatus,
+          page.error,
+          page.links.length,
+          page.pdfs.length,
+          page.finalUrl,
+          page.canonicalUrl,
+          page.contentHash
+        ]
+      );
+      let added = 0;
+      if (page.pdfs.length) {
+        const res = await c.query(
+          `INSERT INTO bandai.crawl_pdfs (pdf_url, page_url, manual_id)
+           SELECT u, $2, (substring(u FROM '/pdf/(\\d+)\\.pdf$'))::int FROM unnest($1::text[]) AS u
+           ON CONFLICT (pdf_url) DO UPDATE SET last_seen_at = now()
+           RETURNING (xmax = 0) AS inserted`,
+          [page.pdfs, page.url]
+        );
+        added = res.rows.filter((r) => r.inserted).length;
+      }
+      await c.query('COMMIT');
+      return added;
+    } catch (err) {
+      await c.query('ROLLBACK');
+      throw err;
+    }
+  });
+}
+
+// Pages with identical content across every crawl so far, largest groups first
+export async function crawlDuplicates(): Promise<DuplicatePages[]> {
+  const res = await withClient((c) =>
+    c.query(
+      `SELECT content_sha256, array_agg(url ORDER BY url) AS urls
+       FROM bandai.crawl_pages
+       WHERE content_sha256 IS NOT NULL AND status = 'ok'
+       GROUP BY content_sha256
+       HAVING count(*) > 1
+       ORDER BY count(*) DESC, min(url)`
+    )
+  );
+  return res.rows.map((r) => ({ contentHash: r.content_sha256, urls: r.urls }));
+}
@@ -1,7 +1,25 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
 import * as cheerio from 'cheerio';
 import { HttpClient } from './http.js';
-import { ensureAbsoluteUrl, matchesAny, matchesNone } from './utils.js';
-import { CrawlConfig, CrawlResult } from './types.js';
+import { RobotsDisallowedError } from './politeness.js';
+import { discoverSitemapUrls } from './sitemap.js';
+import { canonicalizeUrl, ensureAbsoluteUrl, matchesAny, matchesNone } from './utils.js';
+import { CrawlConfig, CrawledPage, CrawlResult, DuplicatePages } from './types.js';
+
+type QueueItem = { url: string; depth: number };
+
+// What frontierFile holds: enough to pick the crawl up where the last run stopped
+type Frontier = {
+  baseUrl: string;
+  queue: QueueItem[];
+  seen: string[]; // every URL ever queued, visited or not, plus redirect targets and rel=canonical URLs
+  updatedAt: string;
+};
+
+// The frontier file is rewritten every N committed pages; after a crash at most that many are visited again
+const SAVE_EVERY = 25;
 
 export class Crawler {
   private http: HttpClient;
@@ -9,90 +27,222 @@ export class Crawler {
 
   constructor(cfg: CrawlConfig) {
     this.cfg = {
-      baseUrl: cfg.baseUrl,
+      baseUrl: canonicalizeUrl(cfg.baseUrl),
       hostAllowlist: cfg.hostAllowlist ?? [new URL(cfg.baseUrl).host],
       includePathPatterns: cfg.includePathPatterns ?? [/manual/i, /item/i, /catalog/i, /pdf$/i],
       excludePathPatterns: cfg.excludePathPatterns ?? [/\.(jpg|jpeg|png|gif|svg|webp)$/i],
       maxPages: cfg.maxPages ?? 250,
+      maxDepth: cfg.maxDepth ?? Infinity,
       concurrency: cfg.concurrency ?? 4,
       delayMs: cfg.delayMs ?? 300,
       userAgent: cfg.userAgent ?? 'bandai-manuals-scraper/0.1 (+github.com/openai/codex-cli)',
-      timeoutMs: cfg.timeoutMs ?? 30000
+      timeoutMs: cfg.timeoutMs ?? 30000,
+      respectRobots: cfg.respectRobots ?? true,
+      cache: cfg.cache,
+      frontierFile: cfg.frontierFile,
+      sitemaps: cfg.sitemaps ?? true,
+      onPage: cfg.onPage
     } as Required<CrawlConfig>;
 
     this.http = new HttpClient({
       userAgent: this.cfg.userAgent,
       timeoutMs: this.cfg.timeoutMs,
       delayMs: this.cfg.delayMs,
-      concurrency: this.cfg.concurrency
+      concurrency: this.cfg.concurrency,
+      respectRobots: this.cfg.respectRobots,
+      cache: this.cfg.cache
     });
   }
 
+  // Breadth-first with up to `concurrency` pages in flight. Pages are committed (links queued, onPage called)
+  // in the order they were dispatched, so the visit order and results match a one-at-a-time crawl.
+  // URLs are compared in canonical form (canonicalizeUrl), and a new crawl first queues what the sitemaps list.
   async crawl(): Promise<CrawlResult> {
-    const q: string[] = [this.cfg.baseUrl];
-    const seen = new Set<string>();
+    const saved = this.loadFrontier();
+    const queue: QueueItem[] = saved ? saved.queue : [{ url: this.cfg.baseUrl, depth: 0 }];
+    const seen = new Set<string>(saved ? saved.seen : [this.cfg.baseUrl]);
+    const sitemapUrls = !saved && this.cfg.sitemaps ? await this.seedFromSitemaps(queue, seen) : 0;
     const all = new Set<string>();
     const manualPages = new Set<string>();
     const pdfs = new Set<string>();
+    const byHash = new Map<string, string[]>();
 
-    while (q.length && seen.size < this.cfg.maxPages) {
-      const url = q.shift()!;
-      if (seen.has(url)) continue;
-      seen.add(url);
+    const inFlight: Array<{ item: QueueItem; page: Promise<CrawledPage> }> = [];
+    let dispatched = 0;
+    let sinceSave = 0;
+    const save = () => this.saveFrontier(queue, inFlight, seen);
 
-      let html: string;
-      try {
-        html = await this.http.html(url);
-      } catch (err) {
-        continue; // skip failures, keep crawling
-      }
+    try {
+      for (;;) {
+        while (inFlight.length < this.cfg.concurrency && queue.length && dispatched < this.cfg.maxPages) {
+          const item = queue.shift()!;
+          inFlight.push({ item, page: this.visit(item) });
+          dispatched++;
+        }
+        if (!inFlight.length) break;
 
-      const $ = cheerio.load(html);
-
-      // collect pdfs on page
-      $('a[href$=".pdf"]').each((_, a) => {
-        const abs = ensureAbsoluteUrl(url, $(a).attr('href'));
-        if (!abs) return;
-        const u = safeUrl(abs);
-        if (!u) return;
-        if (this.cfg.hostAllowlist.includes(u.host)) {
-          pdfs.add(u.toString());
-          manualPages.add(url);
-        } else if (abs.endsWith('.pdf')) {
-          // allow absolute pdfs even on CDN
-          pdfs.add(abs);
-          manualPages.add(url);
+        const page = await inFlight[0].page;
+        inFlight.shift();
+        for (const p of page.pdfs) pdfs.add(p);
+        if (page.pdfs.length) manualPages.add(page.url);
+        if (page.contentHash) byHash.set(page.contentHash, [...(byHash.get(page.contentHash) ?? []), page.url]);
+        // Another name for this page: don't fetch it again when a link points there
+        for (const alias of [page.finalUrl, page.canonicalUrl]) if (alias) seen.add(alias);
+        for (const n of page.links) {
+          all.add(n);
+          if (seen.has(n) || page.depth + 1 > this.cfg.maxDepth) continue;
+          seen.add(n);
+          queue.push({ url: n, depth: page.depth + 1 });
+        }
+        if (this.cfg.onPage) await this.cfg.onPage(page);
+        if (++sinceSave >= SAVE_EVERY) {
+          save();
+          sinceSave = 0;
         }
-      });
-
-      // discover next links
-      const nextLinks: string[] = [];
-      $('a[href]').each((_, a) => {
-        const abs = ensureAbsoluteUrl(url, $(a).attr('href'));
-        if (!abs) return;
-        const u = safeUrl(abs);
-        if (!u) return;
-        if (!this.cfg.hostAllowlist.includes(u.host)) return; // stay in-domain
-        const href = u.pathname + (u.search || '');
-        if (!matchesAny(href, this.cfg.includePathPatterns)) return;
-        if (!matchesNone(href, this.cfg.excludePathPatterns)) return;
-        nextLinks.push(u.toString());
-      });
-
-      for (const n of nextLinks) {
-        if (!seen.has(n)) q.push(n);
       }
-
-      for (const n of nextLinks) all.add(n);
+    } finally {
+      // Also on errors: whatever was dispatched but not committed goes back to the front of the queue
+      save();
     }
 
+    const duplicates: DuplicatePages[] = [...byHash]
+      .filter(([, urls]) => urls.length > 1)
+      .map(([contentHash, urls]) => ({ contentHash, urls: urls.sort() }))
+      .sort((a, b) => (a.urls[0] < b.urls[0] ? -1 : 1));
     return {
-      visitedCount: seen.size,
+      visitedCount: dispatched,
+      resumed: saved !== null,
+      remaining: queue.length,
+      sitemapUrls,
       discovered: Array.from(all).sort(),
       manualPages: Array.from(manualPages).sort(),
-      pdfs: Array.from(pdfs).sort()
+      pdfs: Array.from(pdfs).sort(),
+      duplicates
     };
   }
+
+  // Sitemap entries go through the same host/include/exclude filters as links and count as one hop from baseUrl
+  private async seedFromSitemaps(queue: QueueItem[], seen: Set<string>): Promise<number> {
+    if (this.cfg.maxDepth < 1) return 0;
+    const found = await discoverSitemapUrls(this.http, this.cfg.baseUrl);
+    let added = 0;
+    for (const raw of found.urls) {
+      const url = this.acceptLink(raw);
+      if (!url || seen.has(url)) continue;
+      seen.add(url);
+      queue.push({ url, depth: 1 });
+      added++;
+    }
+    if (found.sitemaps.length) {
+      console.log(`[crawl] sitemaps: ${found.sitemaps.length}, URLs listed: ${found.urls.length}, queued: ${added}`);
+    }
+    return added;
+  }
+
+  private async visit(item: QueueItem): Promise<CrawledPage> {
+    const page: CrawledPage = {
+      url: item.url,
+      depth: item.depth,
+      status: 'ok',
+      httpStatus: null,
+      error: null,
+      finalUrl: null,
+      canonicalUrl: null,
+      contentHash: null,
+      links: [],
+      pdfs: []
+    };
+    if (this.cfg.respectRobots && !(await this.http.allowedByRobots(item.url))) return { ...page, status: 'robots' };
+
+    let html: string;
+    let base = item.url; // relative links resolve against where we ended up after redirects
+    try {
+      const res = await this.http.htmlDetailed(item.url);
+      html = res.body;
+      page.httpStatus = res.statusCode;
+      base = res.url || item.url;
+      const finalUrl = canonicalizeUrl(base);
+      if (finalUrl !== item.url) page.finalUrl = finalUrl;
+    } catch (err: any) {
+      // Failures are recorded and skipped, the crawl goes on
+      if (err instanceof RobotsDisallowedError) return { ...page, status: 'robots' };
+      return { ...page, status: 'error', httpStatus: err?.response?.statusCode ?? null, error: err?.message ?? String(err) };
+    }
+
+    const $ = cheerio.load(html);
+    const pdfs = new Set<string>();
+    const links = new Set<string>();
+
+    const canonical = ensureAbsoluteUrl(base, $('link[rel~="canonical"]').first().attr('href'));
+    const canonicalUrl = canonical && safeUrl(canonical) ? canonicalizeUrl(canonical) : null;
+    // Only an in-domain canonical is trusted; anything else could hide a page we would never fetch
+    if (canonicalUrl && canonicalUrl !== item.url && this.cfg.hostAllowlist.includes(new URL(canonicalUrl).host)) {
+      page.canonicalUrl = canonicalUrl;
+    }
+    const text = $('body').text().replace(/\s+/g, ' ').trim();
+    if (text) page.contentHash = crypto.createHash('sha256').update(text).digest('hex');
+
+    // collect pdfs on page (any host, e.g. a CDN); they are recorded here and never fetched as pages
+    $('a[href]').each((_, a) => {
+      const abs = ensureAbsoluteUrl(base, $(a).attr('href'));
+      const u = abs ? safeUrl(abs) : null;
+      if (u && isPdfUrl(u)) pdfs.add(canonicalizeUrl(u.toString()));
+    });
+
+    // discover next links
+    $('a[href]').each((_, a) => {
+      const url = this.acceptLink(ensureAbsoluteUrl(base, $(a).attr('href')));
+      if (url) links.add(url);
+    });
+
+    return { ...page, links: [...links], pdfs: [...pdfs] };
+  }
+
+  // Canonical form of an absolute URL the crawl should follow, or null: in-domain and passing the path patterns
+  private acceptLink(abs: string | null): string | null {
+    if (!abs) return null;
+    const u = safeUrl(abs);
+    if (!u) return null;
+    if (!this.cfg.hostAllowlist.includes(u.host)) return null; // stay in-domain
+    if (isPdfUrl(u)) return null; // listed in the page's pdfs instead
+    const url = canonicalizeUrl(u.toString());
+    const c = new URL(url);
+    const href = c.pathname + (c.search || '');
+    if (!matchesAny(href, this.cfg.includePathPatterns)) return null;
+    if (!matchesNone(href, this.cfg.excludePathPatterns)) return null;
+    return url;
+  }
+
+  private loadFrontier(): Frontier | null {
+    const file = this.cfg.frontierFile;
+    if (!file || !fs.existsSync(file)) return null;
+    const f = JSON.parse(fs.readFileSync(file, 'utf-8')) as Frontier;
+    if (f.baseUrl !== this.cfg.baseUrl) {
+      console.warn(`[crawl] ${file} belongs to ${f.baseUrl}; starting a new crawl of ${this.cfg.baseUrl}`);
+      return null;
+    }
+    return f.queue.length ? f : null;
+  }
+
+  private saveFrontier(queue: QueueItem[], inFlight: Array<{ item: QueueItem }>, seen: Set<string>) {
+    const file = this.cfg.frontierFile;
+    if (!file) return;
+    const pending = [...inFlight.map((x) => x.item), ...queue];
+    // A finished crawl leaves nothing to resume; the next run starts over from baseUrl
+    if (!pending.length) {
+      fs.rmSync(file, { force: true });
+      return;
+    }
+    const f: Frontier = { baseUrl: this.cfg.baseUrl, queue: pending, seen: [...seen], updatedAt: new Date().toISOString() };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(f));
+    fs.renameSync(tmp, file);
+  }
+}
+
+function isPdfUrl(u: URL): boolean {
+  return /\.pdf$/i.test(u.pathname);
 }
 
 function safeUrl(input: string): URL | null {
@@ -102,4 +252,3 @@ function safeUrl(input: string): URL | null {
     return null;
   }
 }
-
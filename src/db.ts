@@ -1,5 +1,13 @@
-import 'dotenv/config';
-import { Pool, PoolClient } from 'pg';
+import './config.js';
+import path from 'node:path';
+import { Pool, PoolClient, types } from 'pg';
+
+// DATE columns (release dates) come back as their 'YYYY-MM-DD' text. node-pg would otherwise build a Date at
+// local midnight, which prints as the previous day once converted to UTC on a server east of Greenwich.
+types.setTypeParser(types.builtins.DATE, (v) => v);
+
+// Shows up in pg_stat_activity and as the `source` of bandai.manual_revisions rows
+const applicationName = process.env.PGAPPNAME || path.basename(process.argv[1] || 'bandai-manuals').replace(/\.[cm]?[jt]s$/, '');
 
 function buildPool(): Pool {
   // If PG* fields are provided, prefer them over DATABASE_URL. This allows easy override for local exports.
@@ -13,6 +21,7 @@ function buildPool(): Pool {
     const needsSsl = /sslmode=require/.test(lower) || /@(.*\.)?(supabase\.co|neon\.tech|render\.com)/.test(lower);
     return new Pool({
       connectionString: direct,
+      application_name: applicationName,
       max: parseInt(process.env.PGPOOL_MAX || '10', 10),
       ssl: needsSsl ? { rejectUnauthorized: false } : undefined
     });
@@ -31,6 +40,7 @@ function buildPool(): Pool {
     user,
     password,
     database,
+    application_name: applicationName,
     max: parseInt(process.env.PGPOOL_MAX || '10', 10),
     ssl: sslEnabled ? { rejectUnauthorized: false } : undefined
   });
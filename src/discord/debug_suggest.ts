@@ -1,7 +1,9 @@
 #!/usr/bin/env tsx
-import 'dotenv/config';
+import '../config.js';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { withClient } from '../db.js';
+import { gradeSpellings, matchesGrade, parseGradeFromQuery, stripGradeTokens } from '../grades.js';
+import { formatReleaseDate } from '../release_dates.js';
 
 type ManualRow = {
   manual_id: number;
@@ -13,6 +15,8 @@ type ManualRow = {
   grade: string | null;
   release_date: string | null;
   release_date_text: string | null;
+  release_sort_date: string | null;
+  release_precision: 'day' | 'month' | 'year' | null;
   image_url: string | null;
   storage_bucket: string | null;
   storage_path: string | null;
@@ -52,114 +56,9 @@ function parseArgs(argv: string[]) {
   return { flags: out, rest };
 }
 
-function parseGradeFromQuery(q: string): string | null {
-  const s = q.toLowerCase();
-  const checks: Array<{ re: RegExp; code: string }> = [
-    { re: /\bmg\s*ex\b/, code: 'MGEX' },
-    { re: /\bmgex\b/, code: 'MGEX' },
-    { re: /\bmg\s*sd\b/, code: 'MGSD' },
-    { re: /\bmgsd\b/, code: 'MGSD' },
-    { re: /\bmaster\s+grade\b/, code: 'MG' },
-    { re: /\breal\s+grade\b/, code: 'RG' },
-    { re: /\bhigh\s+grade\b/, code: 'HG' },
-    { re: /\bentry\s+grade\b/, code: 'EG' },
-    { re: /\bre\s*\/?\s*100\b/, code: 'RE/100' },
-    { re: /\bfull\s+mechanics\b/, code: 'FM' },
-    { re: /\bperfect\s+grade\b/, code: 'PG' },
-    { re: /\bsd\s*cs\b/, code: 'SDCS' },
-    { re: /\beg\b/, code: 'EG' },
-    { re: /\bhg\b/, code: 'HG' },
-    { re: /\brg\b/, code: 'RG' },
-    { re: /\bmg\b/, code: 'MG' },
-    { re: /\bpg\b/, code: 'PG' },
-    { re: /\bsdcs\b/, code: 'SDCS' },
-    { re: /\bsd\b/, code: 'SD' }
-  ];
-  for (const c of checks) if (c.re.test(s)) return c.code;
-  return null;
-}
-
-function gradeSynonyms(code: string): string[] {
-  const c = code.toUpperCase();
-  switch (c) {
-    case 'EG':
-      return ['EG', 'ENTRY GRADE', 'ENTRYGRADE'];
-    case 'HG':
-      return ['HG', 'HIGH GRADE'];
-    case 'MG':
-      return ['MG', 'MASTER GRADE'];
-    case 'RG':
-      return ['RG', 'REAL GRADE'];
-    case 'PG':
-      return ['PG', 'PERFECT GRADE'];
-    case 'FM':
-      return ['FM', 'FULL MECHANICS', 'FULLMECHANICS'];
-    case 'RE/100':
-      return ['RE/100', 'RE 100', 'RE-100', 'RE:100'];
-    case 'SDCS':
-      return ['SDCS', 'SD CS'];
-    case 'MGEX':
-      return ['MGEX', 'MG EX'];
-    case 'MGSD':
-      return ['MGSD', 'MG SD'];
-    case 'SD':
-      return ['SD'];
-    default:
-      return [c];
-  }
-}
-
-function containsToken(text: string, token: string): boolean {
-  const T = (text || '').toUpperCase();
-  const tok = (token || '').toUpperCase();
-  if (/^[A-Z]{1,3}$/.test(tok)) {
-    const re = new RegExp(`(^|[^A-Z0-9])${tok}([^A-Z0-9]|$)`);
-    return re.test(T);
-  }
-  const noSpaceT = T.replace(/\s+/g, '');
-  const noSpaceTok = tok.replace(/\s+/g, '');
-  return T.includes(tok) || noSpaceT.includes(noSpaceTok);
-}
-
-function matchesGrade(row: ManualRow, code: string): boolean {
-  const syns = gradeSynonyms(code);
-  const g = (row.grade || '').toUpperCase();
-  if (syns.includes(g)) return true;
-  const ne = (row.name_en || '');
-  const nj = (row.name_jp || '');
-  return syns.some((s) => containsToken(ne, s) || containsToken(nj, s));
-}
-
-function stripGradeTokens(q: string): string {
-  let s = q;
-  const reps: Array<RegExp> = [
-    /\bentry\s*grade\b/gi,
-    /\bhigh\s*grade\b/gi,
-    /\bmaster\s*grade\b/gi,
-    /\breal\s*grade\b/gi,
-    /\bperfect\s*grade\b/gi,
-    /\bfull\s*mechanics\b/gi,
-    /\bre\s*\/?\s*100\b/gi,
-    /\bmg\s*ex\b/gi,
-    /\bmg\s*sd\b/gi,
-    /\bmgex\b/gi,
-    /\bmgsd\b/gi,
-    /\beg\b/gi,
-    /\bhg\b/gi,
-    /\bmg\b/gi,
-    /\brg\b/gi,
-    /\bpg\b/gi,
-    /\bsdcs\b/gi,
-    /\bsd\b/gi
-  ];
-  for (const re of reps) s = s.replace(re, ' ');
-  return s.replace(/\s+/g, ' ').trim();
-}
-
 async function fetchByGrade(sb: SupabaseClient, code: string, limit = 2000): Promise<ManualRow[]> {
-  const syns = gradeSynonyms(code);
   const ors: string[] = [];
-  for (const s of syns) {
+  for (const s of gradeSpellings(code)) {
     const esc = s.replace(/,/g, '');
     ors.push(`grade.ilike.${esc}`);
     ors.push(`name_en.ilike.%${esc}%`);
@@ -168,10 +67,10 @@ async function fetchByGrade(sb: SupabaseClient, code: string, limit = 2000): Pro
   const { data, error } = await sb
     .from('manuals')
     .select(
-      'manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, image_url, storage_bucket, storage_path, storage_public_url'
+      'manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, release_sort_date, release_precision, image_url, storage_bucket, storage_path, storage_public_url'
     )
     .or(ors.join(','))
-    .order('release_date', { ascending: false, nullsFirst: true })
+    .order('release_sort_date', { ascending: false, nullsFirst: true })
     .order('manual_id', { ascending: false })
     .limit(Math.max(1, Math.min(5000, limit)));
   if (error) throw error;
@@ -180,7 +79,7 @@ async function fetchByGrade(sb: SupabaseClient, code: string, limit = 2000): Pro
 }
 
 function summarize(r: ManualRow): string {
-  const d = r.release_date || '—';
+  const d = formatReleaseDate(r.release_sort_date, r.release_precision) || '—';
   const nm = r.name_en || r.name_jp || 'Manual';
   return `${r.manual_id} | ${d} | ${r.grade ?? '—'} | ${nm}`;
 }
@@ -268,10 +167,10 @@ async function debugPg(q: string, limit = 20) {
     where.push(`(name_en ILIKE $${idx1} OR name_jp ILIKE $${idx2} OR (grade || ' ' || name_en) ILIKE $${idx3})`);
   }
   const sql = `
-    SELECT manual_id, name_en, name_jp, grade, release_date
+    SELECT manual_id, name_en, name_jp, grade, release_sort_date, release_precision
     FROM bandai.manuals
     ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
-    ORDER BY COALESCE(release_date, DATE '1900-01-01') DESC, manual_id DESC
+    ORDER BY COALESCE(release_sort_date, DATE '1900-01-01') DESC, manual_id DESC
     LIMIT ${Math.max(1, Math.min(50, limit))}
   `;
   console.log('sql:\n', sql);
@@ -280,7 +179,7 @@ async function debugPg(q: string, limit = 20) {
   console.log('rows:', res.rowCount);
   for (const r of res.rows) {
     const label = r.name_en || r.name_jp || `Manual ${r.manual_id}`;
-    const d = r.release_date || '—';
+    const d = formatReleaseDate(r.release_sort_date, r.release_precision) || '—';
     console.log(`  ${r.manual_id} | ${d} | ${r.grade ?? '—'} | ${label}`);
   }
 }
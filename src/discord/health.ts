@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import '../config.js';
 import { withClient } from '../db.js';
 import { createClient } from '@supabase/supabase-js';
 
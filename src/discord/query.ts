@@ -1,4 +1,5 @@
 import { withClient } from '../db.js';
+import { parseGradeFromQuery, stripGradeTokens } from '../grades.js';
 
 export type ManualRow = {
   manual_id: number;
@@ -10,17 +11,28 @@ export type ManualRow = {
   grade: string | null;
   release_date: string | null;
   release_date_text: string | null;
+  release_sort_date: string | null;
+  release_precision: 'day' | 'month' | 'year' | null;
   image_url: string | null;
+  image_local_path: string | null;
+  image_storage_url: string | null;
   storage_bucket: string | null;
   storage_path: string | null;
   storage_public_url: string | null;
+  delisted_at: string | null;
+  pdf_removed_at: string | null;
+  pdf_page_count: number | null;
+  pdf_page_width_pt: number | null;
+  pdf_page_height_pt: number | null;
+  pdf_text_based: boolean | null;
 };
 
 export async function getManualById(id: number): Promise<ManualRow | null> {
   const res = await withClient((c) =>
     c.query(
       `SELECT manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, image_url,
-              storage_bucket, storage_path, storage_public_url
+              release_sort_date, release_precision, image_local_path, image_storage_url, storage_bucket, storage_path, storage_public_url,
+              delisted_at, pdf_removed_at, pdf_page_count, pdf_page_width_pt, pdf_page_height_pt, pdf_text_based
        FROM bandai.manuals WHERE manual_id = $1`,
       [id]
     )
@@ -28,12 +40,15 @@ export async function getManualById(id: number): Promise<ManualRow | null> {
   return res.rowCount ? (res.rows[0] as ManualRow) : null;
 }
 
-export async function searchManuals(q: string, grade?: string, limit = 5): Promise<ManualRow[]> {
+export async function searchManuals(q: string, grade?: string, limit = 5, category?: string): Promise<ManualRow[]> {
   const params: any[] = [];
   const where: string[] = [];
-  if (q) {
+  // A grade named in the query ("HG aerial") filters by grade family instead of matching as text
+  const detected = grade || parseGradeFromQuery(q);
+  const qCore = detected ? stripGradeTokens(q) : q;
+  if (qCore) {
     // Tokenize query and require every token to appear in any order
-    const tokens = q
+    const tokens = qCore
       .split(/\s+/)
       .map((t) => t.trim())
       .filter(Boolean);
@@ -46,16 +61,22 @@ export async function searchManuals(q: string, grade?: string, limit = 5): Promi
       where.push(`(name_en ILIKE $${idx1} OR name_jp ILIKE $${idx2} OR (grade || ' ' || name_en) ILIKE $${idx3})`);
     }
   }
-  if (grade) {
-    params.push(grade);
-    where.push(`grade = $${params.length}`);
+  if (detected) {
+    // HG also matches HGUC, HGCE, ... (families live in bandai.grades)
+    params.push([detected]);
+    where.push(`grade = ANY(bandai.grade_codes($${params.length}))`);
+  }
+  if (category) {
+    params.push(category);
+    where.push(`bandai.manual_in_category(manual_id, $${params.length})`);
   }
   const sql = `
     SELECT manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, image_url,
-           storage_bucket, storage_path, storage_public_url
+           release_sort_date, release_precision, image_local_path, image_storage_url, storage_bucket, storage_path, storage_public_url,
+           delisted_at, pdf_removed_at, pdf_page_count, pdf_page_width_pt, pdf_page_height_pt, pdf_text_based
     FROM bandai.manuals
     ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
-    ORDER BY COALESCE(release_date, '1900-01-01') DESC, manual_id DESC
+    ORDER BY COALESCE(release_sort_date, '1900-01-01') DESC, manual_id DESC
     LIMIT ${Math.max(1, Math.min(25, limit))}
   `;
   const res = await withClient((c) => c.query(sql, params));
@@ -65,15 +86,20 @@ export async function searchManuals(q: string, grade?: string, limit = 5): Promi
 export type Suggestion = { name: string; value: string };
 
 export async function suggestManuals(q: string, limit = 20): Promise<Suggestion[]> {
-  const tokens = q
+  const detected = parseGradeFromQuery(q);
+  const tokens = (detected ? stripGradeTokens(q) : q)
     .split(/\s+/)
     .map((t) => t.trim())
     .filter(Boolean)
     .slice(0, 5);
-  if (tokens.length === 0) return [];
+  if (tokens.length === 0 && !detected) return [];
 
   const params: any[] = [];
   const where: string[] = [];
+  if (detected) {
+    params.push([detected]);
+    where.push(`grade = ANY(bandai.grade_codes($${params.length}))`);
+  }
   for (const tok of tokens) {
     const p1 = `%${tok}%`;
     params.push(p1, p1, p1);
@@ -86,7 +112,7 @@ export async function suggestManuals(q: string, limit = 20): Promise<Suggestion[
     SELECT manual_id, name_en, name_jp, grade
     FROM bandai.manuals
     ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
-    ORDER BY COALESCE(release_date, '1900-01-01') DESC, manual_id DESC
+    ORDER BY COALESCE(release_sort_date, '1900-01-01') DESC, manual_id DESC
     LIMIT ${Math.max(1, Math.min(20, limit))}
   `;
   const res = await withClient((c) => c.query(sql, params));
@@ -95,3 +121,21 @@ export async function suggestManuals(q: string, limit = 20): Promise<Suggestion[
     return { name: label, value: String(r.manual_id) } as Suggestion;
   });
 }
+
+// A page of a manual matching a full-text query (bandai.search_manual_pages); snippet marks hits with **bold**
+export type PageHit = {
+  manual_id: number;
+  name_en: string | null;
+  name_jp: string | null;
+  grade: string | null;
+  page: number;
+  snippet: string;
+  rank: number;
+};
+
+export async function searchManualPages(q: string, limit = 10, category?: string): Promise<PageHit[]> {
+  const res = await withClient((c) =>
+    c.query('SELECT * FROM bandai.search_manual_pages($1, $2, $3)', [q, Math.max(1, Math.min(50, limit)), category ?? null])
+  );
+  return res.rows as PageHit[];
+}
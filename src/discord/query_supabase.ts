@@ -1,5 +1,6 @@
-import 'dotenv/config';
+import '../config.js';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { gradeSpellings, matchesGrade, parseGradeFromQuery, stripGradeTokens } from '../grades.js';
 
 export type ManualRow = {
   manual_id: number;
@@ -11,10 +12,20 @@ export type ManualRow = {
   grade: string | null;
   release_date: string | null;
   release_date_text: string | null;
+  release_sort_date: string | null;
+  release_precision: 'day' | 'month' | 'year' | null;
   image_url: string | null;
+  image_local_path: string | null;
+  image_storage_url: string | null;
   storage_bucket: string | null;
   storage_path: string | null;
   storage_public_url: string | null;
+  delisted_at: string | null;
+  pdf_removed_at: string | null;
+  pdf_page_count: number | null;
+  pdf_page_width_pt: number | null;
+  pdf_page_height_pt: number | null;
+  pdf_text_based: boolean | null;
 };
 
 function getClient(): SupabaseClient {
@@ -26,132 +37,11 @@ function getClient(): SupabaseClient {
   return createClient(url, key, { db: { schema: 'bandai' } });
 }
 
-function parseGradeFromQuery(q: string): string | null {
-  const s = q.toLowerCase();
-  const checks: Array<{ re: RegExp; code: string }> = [
-    { re: /\bmg\s*ex\b/, code: 'MGEX' },
-    { re: /\bmgex\b/, code: 'MGEX' },
-    { re: /\bmg\s*sd\b/, code: 'MGSD' },
-    { re: /\bmgsd\b/, code: 'MGSD' },
-    { re: /\bmaster\s+grade\b/, code: 'MG' },
-    { re: /\breal\s+grade\b/, code: 'RG' },
-    { re: /\bhigh\s+grade\b/, code: 'HG' },
-    { re: /\bentry\s+grade\b/, code: 'EG' },
-    { re: /\bre\s*\/?\s*100\b/, code: 'RE/100' },
-    { re: /\bfull\s+mechanics\b/, code: 'FM' },
-    { re: /\bperfect\s+grade\b/, code: 'PG' },
-    { re: /\bsd\s*cs\b/, code: 'SDCS' },
-    { re: /\beg\b/, code: 'EG' },
-    { re: /\bhg\b/, code: 'HG' },
-    { re: /\brg\b/, code: 'RG' },
-    { re: /\bmg\b/, code: 'MG' },
-    { re: /\bpg\b/, code: 'PG' },
-    { re: /\bsdcs\b/, code: 'SDCS' },
-    { re: /\bsd\b/, code: 'SD' }
-  ];
-  for (const c of checks) if (c.re.test(s)) return c.code;
-  return null;
-}
-
-function gradeSynonyms(code: string): string[] {
-  const c = code.toUpperCase();
-  switch (c) {
-    case 'EG':
-      return ['EG', 'ENTRY GRADE', 'ENTRYGRADE'];
-    case 'HG':
-      return ['HG', 'HIGH GRADE'];
-    case 'MG':
-      return ['MG', 'MASTER GRADE'];
-    case 'RG':
-      return ['RG', 'REAL GRADE'];
-    case 'PG':
-      return ['PG', 'PERFECT GRADE'];
-    case 'FM':
-      return ['FM', 'FULL MECHANICS', 'FULLMECHANICS'];
-    case 'RE/100':
-      return ['RE/100', 'RE 100', 'RE-100', 'RE:100'];
-    case 'SDCS':
-      return ['SDCS', 'SD CS'];
-    case 'MGEX':
-      return ['MGEX', 'MG EX'];
-    case 'MGSD':
-      return ['MGSD', 'MG SD'];
-    case 'SD':
-      return ['SD'];
-    default:
-      return [c];
-  }
-}
-
-function matchesGrade(row: ManualRow, code: string): boolean {
-  const syns = gradeSynonyms(code);
-  const g = (row.grade || '').toUpperCase();
-  if (syns.includes(g)) return true;
-  const ne = (row.name_en || '').toUpperCase();
-  const nj = (row.name_jp || '').toUpperCase();
-  const containsToken = (text: string, token: string): boolean => {
-    const T = text.toUpperCase();
-    const tok = token.toUpperCase();
-    // Short codes like EG/HG/MG/RG/PG/SD: require non-alnum boundaries to avoid LEGEND, etc.
-    if (/^[A-Z]{1,3}$/.test(tok)) {
-      const re = new RegExp(`(^|[^A-Z0-9])${tok}([^A-Z0-9]|$)`);
-      return re.test(T);
-    }
-    // Multi-word tokens: accept with/without spaces
-    const noSpaceT = T.replace(/\s+/g, '');
-    const noSpaceTok = tok.replace(/\s+/g, '');
-    return T.includes(tok) || noSpaceT.includes(noSpaceTok);
-  };
-  return syns.some((s) => containsToken(ne, s) || containsToken(nj, s));
-}
-
-function stripGradeTokens(q: string): string {
-  let s = q;
-  const reps: Array<RegExp> = [
-    /\bentry\s*grade\b/gi,
-    /\bhigh\s*grade\b/gi,
-    /\bmaster\s*grade\b/gi,
-    /\breal\s*grade\b/gi,
-    /\bperfect\s*grade\b/gi,
-    /\bfull\s*mechanics\b/gi,
-    /\bre\s*\/?\s*100\b/gi,
-    /\bmg\s*ex\b/gi,
-    /\bmg\s*sd\b/gi,
-    /\bmgex\b/gi,
-    /\bmgsd\b/gi,
-    /\beg\b/gi,
-    /\bhg\b/gi,
-    /\bmg\b/gi,
-    /\brg\b/gi,
-    /\bpg\b/gi,
-    /\bsdcs\b/gi,
-    /\bsd\b/gi
-  ];
-  for (const re of reps) s = s.replace(re, ' ');
-  return s.replace(/\s+/g, ' ').trim();
-}
-
-function isGradeOnlyQuery(q: string): boolean {
-  const gradeWords = new Set([
-    'eg', 'entry', 'grade',
-    'hg', 'high',
-    'mg', 'master',
-    'rg', 'real',
-    'pg', 'perfect',
-    'fm', 'full', 'mechanics', 'fullmechanics',
-    're', 're/100', 're-100', 're:100', '100',
-    'sd', 'sdcs', 'cs',
-    'mgex', 'mg', 'ex', 'mgsd', 'sd'
-  ]);
-  const tokens = (q.toLowerCase().match(/\b[\p{L}0-9]+\b/gu) || []).filter((t) => !gradeWords.has(t));
-  return tokens.length === 0;
-}
-
 async function fetchByGrade(code: string, limit = 20): Promise<ManualRow[]> {
   const supabase = getClient();
-  const syns = gradeSynonyms(code);
   const ors: string[] = [];
-  for (const s of syns) {
+  // Every spelling of the grade and its family (HG also fetches HGUC, HGCE, ...); matchesGrade then drops false hits
+  for (const s of gradeSpellings(code)) {
     const esc = s.replace(/,/g, '');
     ors.push(`grade.ilike.${esc}`);
     ors.push(`name_en.ilike.%${esc}%`);
@@ -160,10 +50,10 @@ async function fetchByGrade(code: string, limit = 20): Promise<ManualRow[]> {
   const { data, error } = await supabase
     .from('manuals')
     .select(
-      'manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, image_url, storage_bucket, storage_path, storage_public_url'
+      'manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, release_sort_date, release_precision, image_url, image_local_path, image_storage_url, storage_bucket, storage_path, storage_public_url, delisted_at, pdf_removed_at, pdf_page_count, pdf_page_width_pt, pdf_page_height_pt, pdf_text_based'
     )
     .or(ors.join(','))
-    .order('release_date', { ascending: false, nullsFirst: true })
+    .order('release_sort_date', { ascending: false, nullsFirst: true })
     .order('manual_id', { ascending: false })
     .limit(Math.max(1, Math.min(200, limit)));
   if (error) throw error;
@@ -176,7 +66,7 @@ export async function getManualById(id: number): Promise<ManualRow | null> {
   const { data, error } = await supabase
     .from('manuals')
     .select(
-      'manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, image_url, storage_bucket, storage_path, storage_public_url'
+      'manual_id, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, release_date, release_date_text, release_sort_date, release_precision, image_url, image_local_path, image_storage_url, storage_bucket, storage_path, storage_public_url, delisted_at, pdf_removed_at, pdf_page_count, pdf_page_width_pt, pdf_page_height_pt, pdf_text_based'
     )
     .eq('manual_id', id)
     .limit(1)
@@ -185,7 +75,7 @@ export async function getManualById(id: number): Promise<ManualRow | null> {
   return (data as ManualRow) || null;
 }
 
-export async function searchManuals(q: string, grade?: string, limit = 5): Promise<ManualRow[]> {
+export async function searchManuals(q: string, grade?: string, limit = 5, category?: string): Promise<ManualRow[]> {
   const supabase = getClient();
   const detected = grade || parseGradeFromQuery(q);
   const qCore = detected ? stripGradeTokens(q) : q;
@@ -193,14 +83,15 @@ export async function searchManuals(q: string, grade?: string, limit = 5): Promi
   if (process.env.DEBUG_SUGGEST === '1') {
     console.log('[src.searchManuals] q=%s detected=%s qCore=%s rpcLimit=%d', q, detected ?? '—', qCore, rpcLimit);
   }
-  const { data, error } = await supabase.rpc('search_manuals', { q: qCore, p_limit: rpcLimit });
+  const { data, error } = await supabase.rpc('search_manuals', { q: qCore, p_limit: rpcLimit, p_category: category ?? null });
   if (error) throw error;
   let rows = (data as ManualRow[]) || [];
   if (detected) rows = rows.filter((r) => matchesGrade(r, detected));
   if (process.env.DEBUG_SUGGEST === '1') {
     console.log('[src.searchManuals] initial=%d after-grade=%d', (data as ManualRow[])?.length ?? 0, rows.length);
   }
-  if ((!rows || rows.length === 0) && detected) {
+  // The grade pool below cannot apply a category filter, so only fall back without one
+  if ((!rows || rows.length === 0) && detected && !category) {
     const pool = await fetchByGrade(detected, 1000);
     if (process.env.DEBUG_SUGGEST === '1') console.log('[src.searchManuals] fallback pool=%d', pool.length);
     const tokens = stripGradeTokens(q)
@@ -279,3 +170,25 @@ export async function suggestManuals(q: string, limit = 20): Promise<Suggestion[
     return { name: label, value: String(r.manual_id) };
   });
 }
+
+// A page of a manual matching a full-text query (bandai.search_manual_pages); snippet marks hits with **bold**
+export type PageHit = {
+  manual_id: number;
+  name_en: string | null;
+  name_jp: string | null;
+  grade: string | null;
+  page: number;
+  snippet: string;
+  rank: number;
+};
+
+export async function searchManualPages(q: string, limit = 10, category?: string): Promise<PageHit[]> {
+  const supabase = getClient();
+  const { data, error } = await supabase.rpc('search_manual_pages', {
+    q,
+    p_limit: Math.max(1, Math.min(50, limit)),
+    p_category: category ?? null
+  });
+  if (error) throw error;
+  return (data as PageHit[]) || [];
+}
@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import '../config.js';
 import { REST, Routes } from 'discord.js';
 import { commandsJson } from './commands.js';
 
@@ -1,12 +1,15 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import { config } from './config.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import pLimit from 'p-limit';
 import { withClient, endPool } from './db.js';
-import { HttpClient } from './http.js';
+import { HttpClient, headerValue } from './http.js';
 import { sanitizeFilename } from './utils.js';
 import { filesRoot, absFromRel, relFromAbs, joinFiles } from './paths.js';
+import { JobRun } from './job_runs.js';
+import { checkPdfFile, inspectPdfFile, isCompletePdf } from './pdf.js';
+import { report } from './cli_output.js';
 
 type Row = {
   manual_id: number;
@@ -14,29 +17,47 @@ type Row = {
   name_jp: string | null;
   pdf_url: string;
   pdf_local_path: string | null;
+  pdf_sha256: string | null;
+  pdf_etag: string | null;
+  pdf_last_modified: string | null;
+  pdf_remote_size: string | null; // bigint
+  pdf_fetched_at: Date | null;
 };
 
+type Headers = Record<string, string | string[] | undefined>;
+
 // Paths are stored in DB relative to FILES_ROOT (default ./downloads)
 const SUBDIR = process.env.SUBDIR || 'manuals';
 const OUT_DIR = joinFiles(SUBDIR);
 const ONLY_MISSING = (process.env.ONLY_MISSING ?? '1') !== '0';
 const LIMIT = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined;
-const GRADE = process.env.GRADE; // e.g. "HG,MG"
+const GRADE = process.env.GRADE; // e.g. "HG,MG"; a base grade includes its family (HG -> HGUC, HGCE, ...)
+const CATEGORY = process.env.CATEGORY; // category ids or names, e.g. "1,30 MINUTES MISSIONS"
 const IDS = process.env.IDS; // e.g. "123,456"
 const DL_CONCURRENCY = parseInt(process.env.DL_CONCURRENCY || '3', 10);
+// Re-check already downloaded PDFs against the official copy (HEAD: ETag/Last-Modified/size) and archive
+// replaced versions under SUBDIR/versions/<id>/ instead of overwriting them
+const REVALIDATE = process.argv.includes('--revalidate') || process.env.REVALIDATE === '1';
+const REVALIDATE_AFTER_DAYS = parseFloat(process.env.REVALIDATE_AFTER_DAYS || '30');
+// List what would be downloaded (or revalidated) without fetching anything
+const DRY_RUN = process.argv.includes('--dry-run') || process.env.DRY_RUN === '1';
 
 const http = new HttpClient({
   concurrency: DL_CONCURRENCY,
-  delayMs: parseInt(process.env.DELAY_MS || '200', 10),
-  timeoutMs: parseInt(process.env.TIMEOUT_MS || '30000', 10),
-  userAgent: process.env.USER_AGENT || 'bandai-manuals-scraper/0.2'
+  delayMs: config.http.delayMs,
+  timeoutMs: config.http.timeoutMs,
+  userAgent: config.http.userAgent
 });
 
 async function selectRows(): Promise<Row[]> {
   const clauses: string[] = ['pdf_url IS NOT NULL'];
   const params: any[] = [];
 
-  if (ONLY_MISSING) {
+  if (REVALIDATE) {
+    clauses.push("pdf_local_path IS NOT NULL AND pdf_local_path <> ''");
+    clauses.push(`(pdf_checked_at IS NULL OR pdf_checked_at < now() - make_interval(secs => $${params.length + 1}))`);
+    params.push(REVALIDATE_AFTER_DAYS * 86400);
+  } else if (ONLY_MISSING) {
     // Use a parameter for empty string to avoid SQL quoting issues
     clauses.push(`(pdf_local_path IS NULL OR pdf_local_path = $${params.length + 1})`);
     params.push('');
@@ -45,11 +66,23 @@ async function selectRows(): Promise<Row[]> {
   if (GRADE) {
     const grades = GRADE.split(',').map((s) => s.trim()).filter(Boolean);
     if (grades.length) {
-      clauses.push(`grade = ANY($${params.length + 1})`);
+      clauses.push(`grade = ANY(bandai.grade_codes($${params.length + 1}))`);
       params.push(grades);
     }
   }
 
+  if (CATEGORY) {
+    const cats = CATEGORY.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+    if (cats.length) {
+      clauses.push(`manual_id IN (
+        SELECT mc.manual_id FROM bandai.manual_categories mc
+        JOIN bandai.categories c ON c.category_id = mc.category_id
+        WHERE c.category_id::text = ANY($${params.length + 1}) OR lower(c.name) = ANY($${params.length + 1})
+      )`);
+      params.push(cats);
+    }
+  }
+
   if (IDS) {
     const ids = IDS.split(',').map((s) => parseInt(s.trim(), 10)).filter((n) => Number.isFinite(n));
     if (ids.length) {
@@ -61,7 +94,8 @@ async function selectRows(): Promise<Row[]> {
   const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
   const limit = LIMIT ? `LIMIT ${LIMIT}` : '';
   const sql = `
-    SELECT manual_id, name_en, name_jp, pdf_url, pdf_local_path
+    SELECT manual_id, name_en, name_jp, pdf_url, pdf_local_path,
+           pdf_sha256, pdf_etag, pdf_last_modified, pdf_remote_size, pdf_fetched_at
     FROM bandai.manuals
     ${where}
     ORDER BY manual_id ASC
@@ -86,63 +120,224 @@ async function setLocalPath(manualId: number, localPath: string) {
   );
 }
 
-async function downloadRow(r: Row): Promise<boolean> {
+async function downloadRow(r: Row, run: JobRun): Promise<boolean> {
   const outPath = expectedOutPath(r);
   await ensureDir(outPath);
 
-  // If DB has a path and it exists, skip
+  // If DB has a path and it holds a complete PDF, skip
   if (r.pdf_local_path) {
     const dbPath = r.pdf_local_path;
     // Prefer interpreting as relative to FILES_ROOT
     const abs1 = absFromRel(dbPath);
-    if (fs.existsSync(abs1)) return false;
+    const problem = await checkPdfFile(abs1);
+    if (!problem) return false;
+    if (problem !== 'missing') console.warn(`[download:db] ${r.manual_id}: ${dbPath} is ${problem}; downloading again`);
     // Fallback: legacy absolute or CWD-relative
     const abs2 = path.isAbsolute(dbPath) ? dbPath : path.resolve(dbPath);
-    if (fs.existsSync(abs2)) {
+    if (abs2 !== abs1 && (await isCompletePdf(abs2))) {
       // If within FILES_ROOT, normalize DB to relative now
       const inside = !path.relative(filesRoot(), abs2).startsWith('..');
       if (inside) {
         await setLocalPath(r.manual_id, relFromAbs(abs2));
+        run.updated++;
       }
       return false;
     }
   }
 
-  // If expected path already exists, update DB and skip
-  if (fs.existsSync(outPath)) {
+  // If expected path already holds a complete PDF, update DB and skip
+  if (await isCompletePdf(outPath)) {
     await setLocalPath(r.manual_id, relFromAbs(outPath));
+    run.updated++;
     return false;
   }
 
   try {
-    await http.download(r.pdf_url, path.dirname(outPath), path.basename(outPath));
+    const { headers } = await http.downloadDetailed(r.pdf_url, path.dirname(outPath), path.basename(outPath));
     await setLocalPath(r.manual_id, relFromAbs(outPath));
+    await recordFetch(r.manual_id, outPath, headers);
     return true;
   } catch (e) {
     console.warn(`[download:db] fail ${r.manual_id}: ${r.pdf_url}`);
+    run.fail(r.manual_id, e);
     return false;
   }
 }
 
+type Remote = { etag: string | null; lastModified: string | null; size: number | null };
+
+function remoteOf(headers: Headers): Remote {
+  const len = parseInt(headerValue(headers['content-length']) ?? '', 10);
+  return { etag: headerValue(headers.etag), lastModified: headerValue(headers['last-modified']), size: Number.isFinite(len) ? len : null };
+}
+
+// Hash + validators of the file we now hold, so later runs can revalidate with a HEAD request
+async function recordFetch(manualId: number, absPath: string, headers: Headers) {
+  const check = await inspectPdfFile(absPath);
+  const remote = remoteOf(headers);
+  await withClient((c) =>
+    c.query(
+      `UPDATE bandai.manuals
+       SET pdf_sha256 = $2, pdf_size_bytes = $3, pdf_mime = $4, pdf_valid = $5, pdf_problem = $6, validated_at = now(),
+           pdf_etag = $7, pdf_last_modified = $8, pdf_remote_size = $9, pdf_fetched_at = now(), pdf_checked_at = now()
+       WHERE manual_id = $1`,
+      [manualId, check.sha256, check.size, check.mime, check.problem === null, check.problem, remote.etag, remote.lastModified, remote.size ?? check.size]
+    )
+  );
+}
+
+// Only validators the server sends and we stored are compared; with none stored there is nothing to compare
+function remoteChanged(r: Row, remote: Remote): boolean | null {
+  const checks: boolean[] = [];
+  if (r.pdf_etag && remote.etag) checks.push(r.pdf_etag !== remote.etag);
+  if (r.pdf_last_modified && remote.lastModified) checks.push(r.pdf_last_modified !== remote.lastModified);
+  if (r.pdf_remote_size != null && remote.size != null) checks.push(Number(r.pdf_remote_size) !== remote.size);
+  return checks.length ? checks.some(Boolean) : null;
+}
+
+function ymd(d: Date): string {
+  return d.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+type RevalidateResult = 'unchanged' | 'baseline' | 'replaced' | 'failed';
+
+async function revalidateRow(r: Row, run: JobRun): Promise<RevalidateResult> {
+  const abs = absFromRel(r.pdf_local_path!);
+  try {
+    const head = await http.head(r.pdf_url);
+    const remote = remoteOf(head.headers);
+    const changed = remoteChanged(r, remote);
+    if (changed === false || changed === null) {
+      // First check of a file downloaded before validators were stored: adopt the current ones as baseline
+      await withClient((c) =>
+        c.query(
+          `UPDATE bandai.manuals
+           SET pdf_etag = COALESCE(pdf_etag, $2), pdf_last_modified = COALESCE(pdf_last_modified, $3),
+               pdf_remote_size = COALESCE(pdf_remote_size, $4), pdf_checked_at = now()
+           WHERE manual_id = $1`,
+          [r.manual_id, remote.etag, remote.lastModified, remote.size]
+        )
+      );
+      return changed === null ? 'baseline' : 'unchanged';
+    }
+
+    // Fetch next to the current file, then compare content: validators can change without the PDF changing
+    const incoming = `${path.basename(abs, '.pdf')}.incoming.pdf`;
+    const { path: newPath, headers } = await http.downloadDetailed(r.pdf_url, path.dirname(abs), incoming);
+    const next = await inspectPdfFile(newPath);
+    const prevSha = r.pdf_sha256 || (await inspectPdfFile(abs).catch(() => null))?.sha256 || null;
+    if (prevSha === next.sha256) {
+      await fs.promises.rm(newPath, { force: true });
+      await recordFetch(r.manual_id, abs, headers);
+      return 'unchanged';
+    }
+
+    if (prevSha && fs.existsSync(abs)) {
+      const fetchedAt = r.pdf_fetched_at ?? (await fs.promises.stat(abs)).mtime;
+      const archiveAbs = joinFiles(SUBDIR, 'versions', String(r.manual_id), `${r.manual_id}-${ymd(fetchedAt)}-${prevSha.slice(0, 12)}.pdf`);
+      await ensureDir(archiveAbs);
+      await fs.promises.rename(abs, archiveAbs);
+      const size = (await fs.promises.stat(archiveAbs)).size;
+      await withClient((c) =>
+        c.query(
+          `INSERT INTO bandai.manual_versions (manual_id, sha256, size_bytes, etag, last_modified, local_path, fetched_at)
+           VALUES ($1,$2,$3,$4,$5,$6,$7)
+           ON CONFLICT (manual_id, sha256) DO NOTHING`,
+          [r.manual_id, prevSha, size, r.pdf_etag, r.pdf_last_modified, relFromAbs(archiveAbs), r.pdf_fetched_at]
+        )
+      );
+      console.log(`[revalidate] ${r.manual_id}: official PDF changed; previous version archived to ${relFromAbs(archiveAbs)}`);
+    }
+    await fs.promises.rename(newPath, abs);
+    await recordFetch(r.manual_id, abs, headers);
+    return 'replaced';
+  } catch (e) {
+    console.warn(`[revalidate] fail ${r.manual_id}: ${r.pdf_url}`);
+    run.fail(r.manual_id, e);
+    return 'failed';
+  }
+}
+
+async function revalidateAll(rows: Row[], run: JobRun) {
+  const limit = pLimit(DL_CONCURRENCY);
+  const counts: Record<RevalidateResult, number> = { unchanged: 0, baseline: 0, replaced: 0, failed: 0 };
+  let done = 0;
+  await Promise.all(
+    rows.map((r) =>
+      limit(async () => {
+        const res = await revalidateRow(r, run);
+        counts[res]++;
+        if (res === 'replaced') run.updated++;
+        run.seen++;
+        done++;
+        if (done % 50 === 0) {
+          console.log(`[revalidate] ${done}/${rows.length}`);
+          await run.flush();
+        }
+      })
+    )
+  );
+  console.log(
+    `[revalidate] checked: ${rows.length}, unchanged: ${counts.unchanged}, baseline recorded: ${counts.baseline}, replaced: ${counts.replaced}, failed: ${counts.failed}`
+  );
+}
+
 async function main() {
   const rows = await selectRows();
+  if (DRY_RUN) {
+    console.log(`[${REVALIDATE ? 'revalidate' : 'download:db'}] would check ${rows.length} manuals (dry run)`);
+    for (const r of rows.slice(0, 20)) console.log(`  ${r.manual_id} | ${r.name_en || r.name_jp || ''} | ${r.pdf_url}`);
+    report({ dryRun: true, candidates: rows.length, ids: rows.map((r) => r.manual_id) });
+    return;
+  }
+  if (REVALIDATE) {
+    console.log(`[revalidate] manuals not checked in ${REVALIDATE_AFTER_DAYS} days: ${rows.length}`);
+    const run = await JobRun.start('revalidate', { afterDays: REVALIDATE_AFTER_DAYS, limit: LIMIT ?? null, ids: IDS ?? null });
+    try {
+      await revalidateAll(rows, run);
+      await run.finish();
+    } catch (e) {
+      await run.finish(e);
+      throw e;
+    }
+    return;
+  }
   console.log(`[download:db] candidates: ${rows.length}, out: ${OUT_DIR}`);
+  const run = await JobRun.start('download', {
+    onlyMissing: ONLY_MISSING,
+    limit: LIMIT ?? null,
+    grade: GRADE ?? null,
+    category: CATEGORY ?? null,
+    ids: IDS ?? null,
+    outDir: OUT_DIR
+  });
+  try {
+    await downloadAll(rows, run);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+async function downloadAll(rows: Row[], run: JobRun) {
   const limit = pLimit(DL_CONCURRENCY);
   let done = 0;
-  let changed = 0;
   await Promise.all(
     rows.map((r) =>
       limit(async () => {
-        const ok = await downloadRow(r);
-        if (ok) changed++;
+        const ok = await downloadRow(r, run);
+        if (ok) run.inserted++;
+        run.seen++;
         done++;
         if (done % 10 === 0 || ok) {
           console.log(`[download:db] ${done}/${rows.length} ${ok ? 'downloaded' : 'ok/skip'} ${r.manual_id}`);
         }
+        if (done % 100 === 0) await run.flush();
       })
     )
   );
-  console.log(`[download:db] downloaded: ${changed}/${rows.length}`);
+  console.log(`[download:db] downloaded: ${run.inserted}/${rows.length}, failed: ${run.failed}`);
 }
 
 main()
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+import { config } from './config.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import pLimit from 'p-limit';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { withClient, endPool } from './db.js';
+import { HttpClient } from './http.js';
+import { absFromRel, joinFiles, relFromAbs } from './paths.js';
+import { JobRun } from './job_runs.js';
+
+type Row = {
+  manual_id: number;
+  image_url: string;
+  image_local_path: string | null;
+  image_storage_url: string | null;
+};
+
+// Images are stored relative to FILES_ROOT like the PDFs (default ./downloads/images)
+const IMAGES_SUBDIR = process.env.IMAGES_SUBDIR || 'images';
+const OUT_DIR = joinFiles(IMAGES_SUBDIR);
+const ONLY_MISSING = (process.env.ONLY_MISSING ?? '1') !== '0';
+const LIMIT = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined;
+const IDS = process.env.IDS; // e.g. "123,456"
+const DL_CONCURRENCY = parseInt(process.env.DL_CONCURRENCY || '3', 10);
+const UPLOAD = process.env.UPLOAD === '1' || process.argv.includes('--upload');
+const BUCKET = process.env.SUPABASE_BUCKET || 'manuals';
+const PREFIX = process.env.SUPABASE_PREFIX || '';
+
+const http = new HttpClient({
+  concurrency: DL_CONCURRENCY,
+  delayMs: config.http.delayMs,
+  timeoutMs: config.http.timeoutMs,
+  userAgent: config.http.userAgent
+});
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+function imageFileName(r: Row): string {
+  let ext = '.jpg';
+  try {
+    const e = path.posix.extname(new URL(r.image_url).pathname).toLowerCase();
+    if (CONTENT_TYPES[e]) ext = e;
+  } catch {}
+  return `${r.manual_id}${ext}`;
+}
+
+function getSupabase(): SupabaseClient | null {
+  if (!UPLOAD) return null;
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    console.error('[download:images] UPLOAD=1 needs SUPABASE_URL and SUPABASE_KEY');
+    process.exit(1);
+  }
+  return createClient(url, key);
+}
+
+async function selectRows(): Promise<Row[]> {
+  const clauses: string[] = ['image_url IS NOT NULL'];
+  const params: any[] = [];
+  if (ONLY_MISSING) {
+    clauses.push(UPLOAD ? '(image_local_path IS NULL OR image_storage_url IS NULL)' : 'image_local_path IS NULL');
+  }
+  if (IDS) {
+    const ids = IDS.split(',').map((s) => parseInt(s.trim(), 10)).filter((n) => Number.isFinite(n));
+    if (ids.length) {
+      clauses.push(`manual_id = ANY($${params.length + 1})`);
+      params.push(ids);
+    }
+  }
+  const sql = `
+    SELECT manual_id, image_url, image_local_path, image_storage_url
+    FROM bandai.manuals
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY manual_id ASC
+    ${LIMIT ? `LIMIT ${LIMIT}` : ''}
+  `;
+  const res = await withClient((c) => c.query(sql, params));
+  return res.rows as Row[];
+}
+
+async function mirrorRow(r: Row, supabase: SupabaseClient | null): Promise<'downloaded' | 'uploaded' | 'skipped'> {
+  let abs = r.image_local_path ? absFromRel(r.image_local_path) : null;
+  let result: 'downloaded' | 'uploaded' | 'skipped' = 'skipped';
+  if (!abs || !fs.existsSync(abs) || !ONLY_MISSING) {
+    abs = await http.download(r.image_url, OUT_DIR, imageFileName(r));
+    await withClient((c) =>
+      c.query('UPDATE bandai.manuals SET image_local_path = $2 WHERE manual_id = $1', [r.manual_id, relFromAbs(abs!)])
+    );
+    result = 'downloaded';
+  }
+
+  if (supabase && (!r.image_storage_url || !ONLY_MISSING)) {
+    const name = path.basename(abs);
+    const objectPath = (PREFIX ? `${PREFIX.replace(/\/+$/, '')}/` : '') + `images/${name}`;
+    const { error } = await supabase.storage.from(BUCKET).upload(objectPath, fs.readFileSync(abs), {
+      upsert: true,
+      contentType: CONTENT_TYPES[path.extname(name)] || 'application/octet-stream'
+    });
+    if (error) throw error;
+    const { data: pub } = supabase.storage.from(BUCKET).getPublicUrl(objectPath);
+    await withClient((c) =>
+      c.query('UPDATE bandai.manuals SET image_storage_url = $2 WHERE manual_id = $1', [r.manual_id, pub?.publicUrl || null])
+    );
+    result = 'uploaded';
+  }
+  return result;
+}
+
+async function main() {
+  const supabase = getSupabase();
+  const rows = await selectRows();
+  console.log(`[download:images] candidates: ${rows.length}, out: ${OUT_DIR}${supabase ? `, bucket: ${BUCKET}` : ''}`);
+  const run = await JobRun.start('images', { onlyMissing: ONLY_MISSING, upload: UPLOAD, limit: LIMIT ?? null, ids: IDS ?? null });
+  try {
+    const limit = pLimit(DL_CONCURRENCY);
+    await Promise.all(
+      rows.map((r) =>
+        limit(async () => {
+          try {
+            const res = await mirrorRow(r, supabase);
+            if (res !== 'skipped') run.inserted++;
+          } catch (e) {
+            console.warn(`[download:images] fail ${r.manual_id}: ${r.image_url}`);
+            run.fail(r.manual_id, e);
+          }
+          run.seen++;
+          if (run.seen % 50 === 0) {
+            console.log(`[download:images] ${run.seen}/${rows.length}`);
+            await run.flush();
+          }
+        })
+      )
+    );
+    console.log(`[download:images] mirrored: ${run.inserted}/${rows.length}, failed: ${run.failed}`);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[download:images] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -1,12 +1,15 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import './config.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import { withClient } from './db.js';
+import { report } from './cli_output.js';
 
 const OUT_DIR = process.env.CSV_OUT_DIR || 'exports';
 const OUT_FILE = process.env.CSV_OUT_FILE || 'manuals.csv';
 const BATCH = parseInt(process.env.CSV_BATCH || '1000', 10);
+// --dry-run counts the rows without writing the file
+const DRY_RUN = process.argv.includes('--dry-run') || process.env.DRY_RUN === '1';
 
 // Column order for CSV
 const COLS = [
@@ -20,18 +23,54 @@ const COLS = [
   'grade',
   'release_date',
   'release_date_text',
+  'release_sort_date',
+  'release_precision',
   'image_url',
+  'image_local_path',
+  'image_storage_url',
+  'series',
+  'scale',
+  'model_number',
+  'variant_tags',
+  'notes',
+  'detail_scraped_at',
+  'last_seen_at',
+  'delisted_at',
+  'pdf_removed_at',
+  'categories',
+  'pdf_sha256',
+  'pdf_size_bytes',
+  'pdf_mime',
+  'pdf_valid',
+  'pdf_problem',
+  'validated_at',
+  'pdf_page_count',
+  'pdf_page_width_pt',
+  'pdf_page_height_pt',
+  'pdf_title',
+  'pdf_created_at',
+  'pdf_text_pages',
+  'pdf_text_based',
   'storage_bucket',
   'storage_path',
   'storage_public_url',
   'storage_size_bytes',
   'storage_uploaded_at',
+  'storage_sha256',
   'created_at',
   'updated_at'
 ] as const;
 
 type Row = Record<(typeof COLS)[number], any>;
 
+// Columns that are not stored on bandai.manuals but derived per row
+const COMPUTED: Partial<Record<(typeof COLS)[number], string>> = {
+  categories: `(SELECT string_agg(c.name, '|' ORDER BY c.position, c.category_id)
+    FROM bandai.manual_categories mc JOIN bandai.categories c ON c.category_id = mc.category_id
+    WHERE mc.manual_id = bandai.manuals.manual_id)`,
+  variant_tags: `array_to_string(variant_tags, '|')`
+};
+
 function csvEscape(value: any): string {
   if (value === null || value === undefined) return '';
   let s: string;
@@ -57,7 +96,7 @@ async function fetchBatch(afterId: number | null, limit: number): Promise<Row[]>
   }
   params.push(limit);
   const sql = `
-    SELECT ${COLS.join(', ')}
+    SELECT ${COLS.map((c) => (COMPUTED[c] ? `${COMPUTED[c]} AS ${c}` : c)).join(', ')}
     FROM bandai.manuals
     ${where}
     ORDER BY manual_id ASC
@@ -68,8 +107,14 @@ async function fetchBatch(afterId: number | null, limit: number): Promise<Row[]>
 }
 
 async function main() {
-  await fs.promises.mkdir(OUT_DIR, { recursive: true });
   const outPath = path.join(OUT_DIR, OUT_FILE);
+  if (DRY_RUN) {
+    const res = await withClient((c) => c.query('SELECT count(*)::int AS n FROM bandai.manuals'));
+    console.log(`[export:csv] would write ${res.rows[0].n} rows to ${outPath}`);
+    report({ dryRun: true, file: outPath, rows: res.rows[0].n });
+    return;
+  }
+  await fs.promises.mkdir(OUT_DIR, { recursive: true });
   const stream = fs.createWriteStream(outPath, { encoding: 'utf8' });
   // Write header
   stream.write(COLS.join(',') + '\n');
@@ -89,6 +134,7 @@ async function main() {
 
   await new Promise<void>((res) => stream.end(res));
   console.log(`[export:csv] wrote ${total} rows to ${outPath}`);
+  report({ file: outPath, rows: total });
 }
 
 main().catch((e) => {
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+import './config.js';
+import { withClient, endPool } from './db.js';
+import { absFromRel } from './paths.js';
+import { JobRun } from './job_runs.js';
+import { openPdf, readPdfMetadata, sha256File, PdfMetadata } from './pdf.js';
+
+// Records page count, page size, embedded title/creation date and text vs image-only for each local PDF.
+// Like extract:text, only files never read or replaced since (pdf_sha256 changed) are opened; --all redoes everything.
+const ALL = process.argv.includes('--all') || process.env.ALL === '1';
+const LIMIT = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined;
+const IDS = process.env.IDS; // e.g. "123,456"
+
+type Row = { manual_id: number; pdf_local_path: string };
+
+async function selectRows(): Promise<Row[]> {
+  const clauses = ["pdf_local_path IS NOT NULL", "pdf_local_path <> ''", 'pdf_valid IS NOT FALSE'];
+  const params: any[] = [];
+  if (!ALL) clauses.push('(pdf_meta_at IS NULL OR (pdf_sha256 IS NOT NULL AND pdf_meta_sha256 IS DISTINCT FROM pdf_sha256))');
+  if (IDS) {
+    const ids = IDS.split(',').map((s) => parseInt(s.trim(), 10)).filter((n) => Number.isFinite(n));
+    if (ids.length) {
+      clauses.push(`manual_id = ANY($${params.length + 1})`);
+      params.push(ids);
+    }
+  }
+  const sql = `
+    SELECT manual_id, pdf_local_path
+    FROM bandai.manuals
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY manual_id ASC
+    ${LIMIT ? `LIMIT ${LIMIT}` : ''}
+  `;
+  const res = await withClient((c) => c.query(sql, params));
+  return res.rows as Row[];
+}
+
+async function readMetadata(abs: string): Promise<PdfMetadata> {
+  const doc = await openPdf(abs);
+  try {
+    return await readPdfMetadata(doc);
+  } finally {
+    await doc.destroy();
+  }
+}
+
+async function saveMetadata(manualId: number, sha: string, m: PdfMetadata) {
+  await withClient((c) =>
+    c.query(
+      `UPDATE bandai.manuals
+       SET pdf_page_count = $2, pdf_page_width_pt = $3, pdf_page_height_pt = $4, pdf_title = $5, pdf_created_at = $6,
+           pdf_text_pages = $7, pdf_text_based = $8, pdf_meta_sha256 = $9, pdf_meta_at = now()
+       WHERE manual_id = $1`,
+      [manualId, m.pageCount, m.widthPt, m.heightPt, m.title, m.createdAt, m.textPages, m.textPages > 0, sha]
+    )
+  );
+}
+
+async function main() {
+  const rows = await selectRows();
+  console.log(`[extract:meta] manuals to read: ${rows.length}${ALL ? ' (--all)' : ''}`);
+  const run = await JobRun.start('metadata', { all: ALL, limit: LIMIT ?? null, ids: IDS ?? null });
+  try {
+    await readAll(rows, run);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+// Sequential for the same reason as extract:text: pdfjs keeps the whole file in memory
+async function readAll(rows: Row[], run: JobRun) {
+  let imageOnly = 0;
+  for (const r of rows) {
+    const abs = absFromRel(r.pdf_local_path);
+    try {
+      const sha = await sha256File(abs);
+      const meta = await readMetadata(abs);
+      await saveMetadata(r.manual_id, sha, meta);
+      if (meta.textPages === 0) imageOnly++;
+      run.updated++;
+    } catch (e) {
+      console.warn(`[extract:meta] fail ${r.manual_id}: ${r.pdf_local_path}`);
+      run.fail(r.manual_id, e);
+    }
+    run.seen++;
+    if (run.seen % 25 === 0) {
+      console.log(`[extract:meta] ${run.seen}/${rows.length}`);
+      await run.flush();
+    }
+  }
+  console.log(`[extract:meta] manuals: ${rows.length}, image-only: ${imageOnly}, failed: ${run.failed}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('[extract:meta] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+import './config.js';
+import { withClient, endPool } from './db.js';
+import { absFromRel } from './paths.js';
+import { JobRun } from './job_runs.js';
+import { openPdf, pageText, sha256File } from './pdf.js';
+
+// Pulls per-page text from local PDFs into bandai.manual_pages. By default only manuals never extracted,
+// or whose file hash (pdf_sha256) changed since, are processed; --all redoes everything.
+const ALL = process.argv.includes('--all') || process.env.ALL === '1';
+const LIMIT = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined;
+const IDS = process.env.IDS; // e.g. "123,456"
+
+type Row = { manual_id: number; pdf_local_path: string };
+
+async function selectRows(): Promise<Row[]> {
+  const clauses = ["pdf_local_path IS NOT NULL", "pdf_local_path <> ''", 'pdf_valid IS NOT FALSE'];
+  const params: any[] = [];
+  if (!ALL) clauses.push('(text_extracted_at IS NULL OR (pdf_sha256 IS NOT NULL AND text_sha256 IS DISTINCT FROM pdf_sha256))');
+  if (IDS) {
+    const ids = IDS.split(',').map((s) => parseInt(s.trim(), 10)).filter((n) => Number.isFinite(n));
+    if (ids.length) {
+      clauses.push(`manual_id = ANY($${params.length + 1})`);
+      params.push(ids);
+    }
+  }
+  const sql = `
+    SELECT manual_id, pdf_local_path
+    FROM bandai.manuals
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY manual_id ASC
+    ${LIMIT ? `LIMIT ${LIMIT}` : ''}
+  `;
+  const res = await withClient((c) => c.query(sql, params));
+  return res.rows as Row[];
+}
+
+// Image-only pages produce no row; the page numbers that do exist keep their position in the PDF
+async function extractPages(abs: string): Promise<Array<{ page: number; content: string }>> {
+  const doc = await openPdf(abs);
+  try {
+    const pages: Array<{ page: number; content: string }> = [];
+    for (let n = 1; n <= doc.numPages; n++) {
+      const content = await pageText(doc, n);
+      if (content) pages.push({ page: n, content });
+    }
+    return pages;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+async function savePages(manualId: number, sha: string, pages: Array<{ page: number; content: string }>) {
+  await withClient(async (c) => {
+    await c.query('BEGIN');
+    try {
+      await c.query('DELETE FROM bandai.manual_pages WHERE manual_id = $1', [manualId]);
+      if (pages.length) {
+        await c.query(
+          `INSERT INTO bandai.manual_pages (manual_id, page, content)
+           SELECT $1, t.page, t.content FROM unnest($2::int[], $3::text[]) AS t(page, content)`,
+          [manualId, pages.map((p) => p.page), pages.map((p) => p.content)]
+        );
+      }
+      await c.query('UPDATE bandai.manuals SET text_extracted_at = now(), text_sha256 = $2 WHERE manual_id = $1', [manualId, sha]);
+      await c.query('COMMIT');
+    } catch (e) {
+      await c.query('ROLLBACK');
+      throw e;
+    }
+  });
+}
+
+async function main() {
+  const rows = await selectRows();
+  console.log(`[extract:text] manuals to extract: ${rows.length}${ALL ? ' (--all)' : ''}`);
+  const run = await JobRun.start('text', { all: ALL, limit: LIMIT ?? null, ids: IDS ?? null });
+  try {
+    await extractAll(rows, run);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+// One PDF at a time: pdfjs holds the whole file in memory and large manuals run to 100+ MB
+async function extractAll(rows: Row[], run: JobRun) {
+  let pagesTotal = 0;
+  let textless = 0;
+  for (const r of rows) {
+    const abs = absFromRel(r.pdf_local_path);
+    try {
+      const sha = await sha256File(abs);
+      const pages = await extractPages(abs);
+      await savePages(r.manual_id, sha, pages);
+      pagesTotal += pages.length;
+      if (pages.length === 0) textless++;
+      run.inserted += pages.length;
+    } catch (e) {
+      console.warn(`[extract:text] fail ${r.manual_id}: ${r.pdf_local_path}`);
+      run.fail(r.manual_id, e);
+    }
+    run.seen++;
+    if (run.seen % 25 === 0) {
+      console.log(`[extract:text] ${run.seen}/${rows.length}, pages with text: ${pagesTotal}`);
+      await run.flush();
+    }
+  }
+  console.log(`[extract:text] manuals: ${rows.length}, pages with text: ${pagesTotal}, no text at all: ${textless}, failed: ${run.failed}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('[extract:text] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -0,0 +1,149 @@
+// The one place that knows Gunpla grades: codes, names, synonyms and families. Product lines such as HGUC or
+// HGCE keep their own code on the manual but belong to the HG family, so a search for "HG" finds them too.
+// `migrate` writes this list to bandai.grades (src/grades_table.ts), which SQL-side filters read through
+// bandai.grade_codes. bot/src/grades.ts is a copy for the standalone bot package.
+export type Grade = {
+  code: string;
+  family: string; // code of the parent grade; equal to code for the base grades
+  nameEn: string;
+  nameJp: string | null;
+  synonyms: string[]; // other spellings seen in names, grade fields and queries
+};
+
+export const GRADES: Grade[] = [
+  { code: 'EG', family: 'EG', nameEn: 'Entry Grade', nameJp: 'エントリーグレード', synonyms: ['ENTRY GRADE', 'ENTRYGRADE'] },
+  { code: 'HG', family: 'HG', nameEn: 'High Grade', nameJp: 'ハイグレード', synonyms: ['HIGH GRADE'] },
+  { code: 'HGUC', family: 'HG', nameEn: 'High Grade Universal Century', nameJp: null, synonyms: ['HG UC', 'HIGH GRADE UNIVERSAL CENTURY'] },
+  { code: 'HGCE', family: 'HG', nameEn: 'High Grade Cosmic Era', nameJp: null, synonyms: ['HG CE'] },
+  { code: 'HGAC', family: 'HG', nameEn: 'High Grade After Colony', nameJp: null, synonyms: ['HG AC'] },
+  { code: 'HGFC', family: 'HG', nameEn: 'High Grade Future Century', nameJp: null, synonyms: ['HG FC'] },
+  { code: 'HGBF', family: 'HG', nameEn: 'High Grade Build Fighters', nameJp: null, synonyms: ['HG BF'] },
+  { code: 'HGBD:R', family: 'HG', nameEn: 'High Grade Build Divers Re:RISE', nameJp: null, synonyms: ['HGBDR', 'HG BD:R'] },
+  { code: 'HGBD', family: 'HG', nameEn: 'High Grade Build Divers', nameJp: null, synonyms: ['HG BD'] },
+  { code: 'HGBC', family: 'HG', nameEn: 'High Grade Build Custom', nameJp: null, synonyms: ['HG BC'] },
+  { code: 'HGGTO', family: 'HG', nameEn: 'High Grade Gundam The Origin', nameJp: null, synonyms: ['HG GTO'] },
+  { code: 'RG', family: 'RG', nameEn: 'Real Grade', nameJp: 'リアルグレード', synonyms: ['REAL GRADE'] },
+  { code: 'MG', family: 'MG', nameEn: 'Master Grade', nameJp: 'マスターグレード', synonyms: ['MASTER GRADE'] },
+  { code: 'MGEX', family: 'MG', nameEn: 'Master Grade EX', nameJp: null, synonyms: ['MG EX'] },
+  // SD-sized despite the name; an "MG" search should not return them
+  { code: 'MGSD', family: 'MGSD', nameEn: 'Master Grade SD', nameJp: null, synonyms: ['MG SD'] },
+  { code: 'PG', family: 'PG', nameEn: 'Perfect Grade', nameJp: 'パーフェクトグレード', synonyms: ['PERFECT GRADE'] },
+  { code: 'PGU', family: 'PG', nameEn: 'Perfect Grade Unleashed', nameJp: null, synonyms: ['PG UNLEASHED', 'PERFECT GRADE UNLEASHED'] },
+  { code: 'RE/100', family: 'RE/100', nameEn: 'Reborn-One Hundred', nameJp: null, synonyms: ['RE 100', 'RE-100', 'RE:100', 'RE100'] },
+  { code: 'FM', family: 'FM', nameEn: 'Full Mechanics', nameJp: 'フルメカニクス', synonyms: ['FULL MECHANICS', 'FULLMECHANICS'] },
+  { code: 'SD', family: 'SD', nameEn: 'Super Deformed', nameJp: null, synonyms: [] },
+  { code: 'SDCS', family: 'SD', nameEn: 'SD Cross Silhouette', nameJp: 'SDクロスシルエット', synonyms: ['SD CS', 'SD GUNDAM CROSS SILHOUETTE', 'CROSS SILHOUETTE'] },
+  { code: 'SDEX', family: 'SD', nameEn: 'SD EX-Standard', nameJp: null, synonyms: ['SD EX', 'SD GUNDAM EX-STANDARD', 'EX-STANDARD', 'EX STANDARD'] },
+  { code: 'BB', family: 'SD', nameEn: 'SD BB Senshi', nameJp: 'BB戦士', synonyms: ['BB SENSHI', 'SD BB', 'SD GUNDAM BB SENSHI'] },
+  { code: '30MM', family: '30MM', nameEn: '30 Minutes Missions', nameJp: null, synonyms: ['30 MINUTES MISSIONS'] },
+  { code: '30MS', family: '30MS', nameEn: '30 Minutes Sisters', nameJp: null, synonyms: ['30 MINUTES SISTERS'] },
+  { code: '30MF', family: '30MF', nameEn: '30 Minutes Fantasy', nameJp: null, synonyms: ['30 MINUTES FANTASY'] }
+];
+
+const BY_CODE = new Map(GRADES.map((g) => [g.code, g]));
+
+// Full-width to ASCII (ＨＧ -> HG) and single spaces; case is handled by the matchers
+function canon(s: string): string {
+  return s.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+type Matcher = { code: string; re: RegExp; len: number };
+
+// One case-insensitive regex per spelling. Separators inside are optional ("RE/100", "RE-100", "re100") and the
+// match must not continue into more letters or digits, so "HG" never matches inside "HGUC" or "LEGEND" and
+// "MG Ex-S" is not MGEX.
+const MATCHERS: Matcher[] = GRADES.flatMap((g) =>
+  [g.code, g.nameEn, ...g.synonyms, ...(g.nameJp ? [g.nameJp] : [])].map((spelling) => {
+    const body = canon(spelling)
+      .split(/[ /:\-]+/)
+      .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[ /:\\-_・]?');
+    return { code: g.code, re: new RegExp(`(^|[^A-Z0-9])(${body})(?=$|[^A-Z0-9\\-]|-(?![A-Z0-9]))`, 'i'), len: spelling.length };
+  })
+).sort((a, b) => b.len - a.len);
+
+export function gradeByCode(code: string | null | undefined): Grade | null {
+  return code ? BY_CODE.get(code.toUpperCase()) ?? null : null;
+}
+
+// A stored or typed grade value ("HIGH GRADE", "hguc", "RE-100") -> its code, or null if it isn't one
+export function normalizeGrade(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const v = canon(value);
+  if (BY_CODE.has(v.toUpperCase())) return v.toUpperCase();
+  const m = MATCHERS.find((x) => x.re.exec(v)?.[0] === v);
+  return m ? m.code : null;
+}
+
+// First grade mentioned in free text, longest spelling first ("HGUC 1/144 ..." -> HGUC, "... MG SD ..." -> MGSD)
+export function findGrade(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const v = canon(text);
+  let best: { code: string; at: number; len: number } | null = null;
+  for (const m of MATCHERS) {
+    const hit = m.re.exec(v);
+    if (!hit) continue;
+    const at = hit.index + hit[1].length;
+    if (!best || at < best.at || (at === best.at && hit[2].length > best.len)) best = { code: m.code, at, len: hit[2].length };
+  }
+  return best?.code ?? null;
+}
+
+// Grade from a kit name on the listing page; names normally lead with it ("HG 1/144 ...")
+export function inferGrade(nameEn?: string | null, nameJp?: string | null): string | null {
+  return findGrade(nameEn) ?? findGrade(nameJp);
+}
+
+// Best grade for a manual given its stored grade and names. A name naming a more specific line of the stored
+// grade wins (grade MG + "MGSD ..." -> MGSD, grade HG + "HGUC ..." -> HGUC); otherwise the stored grade stands.
+export function resolveGrade(grade: string | null | undefined, nameEn?: string | null, nameJp?: string | null): string | null {
+  const stored = normalizeGrade(grade);
+  const named = inferGrade(nameEn, nameJp);
+  if (!stored) return named ?? (grade?.trim() ? grade.trim().toUpperCase() : null);
+  if (named && named !== stored && named.startsWith(stored)) return named;
+  return stored;
+}
+
+export function gradeFamily(code: string | null | undefined): string | null {
+  const g = gradeByCode(normalizeGrade(code) ?? code);
+  return g ? g.family : null;
+}
+
+// Codes a grade filter should accept: a base grade takes its whole family (HG -> HG, HGUC, HGCE, ...),
+// a specific line only itself
+export function gradeCodesFor(wanted: string): string[] {
+  const code = normalizeGrade(wanted);
+  if (!code) return [wanted.trim().toUpperCase()];
+  const g = BY_CODE.get(code)!;
+  return g.family === g.code ? GRADES.filter((x) => x.family === code).map((x) => x.code) : [code];
+}
+
+// True when a manual's stored grade, or failing that its name, satisfies a grade filter
+export function matchesGrade(row: { grade: string | null; name_en: string | null; name_jp: string | null }, wanted: string): boolean {
+  const accepted = new Set(gradeCodesFor(wanted));
+  const own = normalizeGrade(row.grade) ?? inferGrade(row.name_en, row.name_jp);
+  return own !== null && accepted.has(own);
+}
+
+// Every spelling of every accepted code, for ILIKE filters that have to run in the database
+export function gradeSpellings(wanted: string): string[] {
+  return gradeCodesFor(wanted).flatMap((c) => {
+    const g = BY_CODE.get(c);
+    return g ? [g.code, g.nameEn.toUpperCase(), ...g.synonyms, ...(g.nameJp ? [g.nameJp] : [])] : [c];
+  });
+}
+
+export function parseGradeFromQuery(q: string): string | null {
+  return findGrade(q);
+}
+
+// The query with every grade mention removed ("mg sazabi" -> "sazabi")
+export function stripGradeTokens(q: string): string {
+  let s = canon(q);
+  for (const m of MATCHERS) s = s.replace(new RegExp(m.re.source, 'gi'), '$1 ');
+  return s.replace(/\s+/g, ' ').trim();
+}
+
+export function isGradeOnlyQuery(q: string): boolean {
+  return q.trim() !== '' && stripGradeTokens(q) === '';
+}
@@ -0,0 +1,19 @@
+import { GRADES } from './grades.js';
+
+// A pg Pool or PoolClient
+type Queryable = { query(sql: string, params?: unknown[]): Promise<unknown> };
+
+// Rewrites bandai.grades from GRADES, so SQL-side grade filters (bandai.grade_codes) always match this registry.
+// Run by `migrate` and by supabase:sync/transfer on their target.
+export async function writeGradesTable(db: Queryable): Promise<number> {
+  for (const [i, g] of GRADES.entries()) {
+    await db.query(
+      `INSERT INTO bandai.grades (code, family, name_en, name_jp, synonyms, position) VALUES ($1,$2,$3,$4,$5,$6)
+       ON CONFLICT (code) DO UPDATE SET family = EXCLUDED.family, name_en = EXCLUDED.name_en, name_jp = EXCLUDED.name_jp,
+         synonyms = EXCLUDED.synonyms, position = EXCLUDED.position`,
+      [g.code, g.family, g.nameEn, g.nameJp, g.synonyms, i + 1]
+    );
+  }
+  await db.query('DELETE FROM bandai.grades WHERE NOT (code = ANY($1))', [GRADES.map((g) => g.code)]);
+  return GRADES.length;
+}
@@ -1,77 +1,320 @@
-import got, { Response } from 'got';
+import got, { Got, Response } from 'got';
 import pLimit from 'p-limit';
 import fs from 'node:fs';
 import path from 'node:path';
 import { sleep } from './utils.js';
+import { readJson, writeJson } from './storage.js';
+import { checkPdfFile } from './pdf.js';
+import { HttpCache } from './http_cache.js';
+import { HttpFixtures, httpFixturesFromEnv } from './http_fixtures.js';
+import {
+  HostLimiter,
+  RetryPolicy,
+  RobotsDisallowedError,
+  RobotsPolicy,
+  backoffDelay,
+  isRetryable,
+  parseRetryAfter,
+  parseRobots,
+  retryPolicyFromEnv,
+  robotsAllows
+} from './politeness.js';
 
 type HttpOptions = {
   userAgent?: string;
   timeoutMs?: number;
-  delayMs?: number;
+  delayMs?: number; // minimum spacing between requests to the same host
+  burst?: number; // requests per host allowed back-to-back before delayMs spacing applies
   concurrency?: number;
+  respectRobots?: boolean; // check robots.txt (and honor Crawl-delay) before each request
+  retry?: Partial<RetryPolicy>; // defaults from MAX_RETRIES / BACKOFF_BASE_MS / BACKOFF_MAX_MS
+  cache?: HttpCache; // optional on-disk cache for html()/htmlDetailed()
+  fixtures?: HttpFixtures | null; // record/replay; defaults to HTTP_MODE from env, null forces live
 };
 
 export class HttpClient {
-  private client = got.extend({
-    headers: {},
-    followRedirect: true,
-    retry: { limit: 2 },
-    timeout: { request: 30000 }
-  });
-
+  private client: Got;
   private limit: ReturnType<typeof pLimit>;
-  private delayMs: number;
+  private hosts: HostLimiter;
+  private retry: RetryPolicy;
+  private userAgent: string;
+  private respectRobots: boolean;
+  private robots = new Map<string, Promise<RobotsPolicy>>();
+  private cache?: HttpCache;
+  private fixtures?: HttpFixtures;
 
   constructor(opts: HttpOptions = {}) {
-    const { userAgent, timeoutMs, delayMs, concurrency } = opts;
-    this.client = this.client.extend({
-      headers: userAgent ? { 'user-agent': userAgent } : undefined,
-      timeout: timeoutMs ? { request: timeoutMs } : undefined
+    const { userAgent, timeoutMs, delayMs, burst, concurrency, respectRobots, retry, cache, fixtures } = opts;
+    // Retries are handled in send() so they go through the per-host limiter and honor Retry-After
+    this.client = got.extend({
+      headers: userAgent ? { 'user-agent': userAgent } : {},
+      followRedirect: true,
+      retry: { limit: 0 },
+      timeout: { request: timeoutMs || 30000 }
     });
     this.limit = pLimit(Math.max(1, concurrency ?? 4));
-    this.delayMs = Math.max(0, delayMs ?? 0);
+    this.hosts = new HostLimiter(Math.max(0, delayMs ?? 0), burst ?? parseInt(process.env.RATE_BURST || '1', 10));
+    this.retry = { ...retryPolicyFromEnv(), ...retry };
+    this.userAgent = userAgent ?? '';
+    this.respectRobots = respectRobots ?? false;
+    this.fixtures = fixtures === undefined ? httpFixturesFromEnv() : fixtures ?? undefined;
+    // Recording must capture real responses and replay must not touch disk state other than fixtures
+    this.cache = this.fixtures ? undefined : cache;
   }
 
   async html(url: string): Promise<string> {
-    return this.limit(async () => {
-      if (this.delayMs) await sleep(this.delayMs);
-      const res: Response<string> = await this.client.get(url, { responseType: 'text' });
-      return res.body;
-    });
+    return (await this.htmlDetailed(url)).body;
   }
 
   async htmlDetailed(url: string): Promise<{ body: string; url: string; statusCode: number }> {
+    if (this.fixtures?.mode === 'replay') {
+      const fx = this.fixtures.replay('GET', url);
+      const body = fx.bodyPath ? fs.readFileSync(fx.bodyPath, 'utf-8') : '';
+      return { body, url: fx.finalUrl, statusCode: fx.statusCode };
+    }
+    const cached = this.cache?.get(url) ?? null;
+    if (cached && this.cache!.isFresh(cached)) {
+      return { body: cached.body, url: cached.finalUrl, statusCode: cached.statusCode };
+    }
     return this.limit(async () => {
-      if (this.delayMs) await sleep(this.delayMs);
-      const res: Response<string> = await this.client.get(url, { responseType: 'text' });
+      const headers: Record<string, string> = {};
+      if (cached?.etag) headers['if-none-match'] = cached.etag;
+      if (cached?.lastModified) headers['if-modified-since'] = cached.lastModified;
+      const res: Response<string> = await this.send('GET', url, () => this.client.get(url, { responseType: 'text', headers }));
+      if (this.fixtures) this.fixtures.record('GET', url, snapshot(res), res.body);
+      if (res.statusCode === 304 && cached) {
+        this.cache!.touch(cached);
+        return { body: cached.body, url: cached.finalUrl, statusCode: cached.statusCode };
+      }
+      // Only markup is cached: a binary body (a PDF reached by a crawl) would be stored decoded as UTF-8
+      if (this.cache && res.statusCode === 200 && isCacheableType(res.headers['content-type'])) {
+        this.cache.put({
+          url,
+          finalUrl: res.url,
+          statusCode: res.statusCode,
+          etag: headerValue(res.headers.etag),
+          lastModified: headerValue(res.headers['last-modified']),
+          fetchedAt: Date.now(),
+          body: res.body
+        });
+      }
       return { body: res.body, url: res.url, statusCode: res.statusCode };
     });
   }
 
   async head(url: string): Promise<{ url: string; statusCode: number; headers: Record<string, string | string[] | undefined> }> {
+    if (this.fixtures?.mode === 'replay') {
+      const fx = this.fixtures.replay('HEAD', url);
+      return { url: fx.finalUrl, statusCode: fx.statusCode, headers: fx.headers };
+    }
     return this.limit(async () => {
-      if (this.delayMs) await sleep(this.delayMs);
-      const res = await this.client.head(url);
+      const res = await this.send('HEAD', url, () => this.client.head(url));
+      if (this.fixtures) this.fixtures.record('HEAD', url, snapshot(res));
       return { url: res.url, statusCode: res.statusCode, headers: res.headers };
     });
   }
 
   async download(url: string, outDir: string, filename?: string): Promise<string> {
+    return (await this.downloadDetailed(url, outDir, filename)).path;
+  }
+
+  // Like download(), plus the response headers (ETag, Last-Modified, ...) of the final request
+  async downloadDetailed(
+    url: string,
+    outDir: string,
+    filename?: string
+  ): Promise<{ path: string; headers: Record<string, string | string[] | undefined> }> {
+    const outPath = path.join(outDir, filename ?? basenameFromUrl(url));
+    if (this.fixtures?.mode === 'replay') {
+      const fx = this.fixtures.replay('GET', url);
+      await fs.promises.mkdir(outDir, { recursive: true });
+      if (fx.bodyPath) await fs.promises.copyFile(fx.bodyPath, outPath);
+      else await fs.promises.writeFile(outPath, '');
+      return { path: outPath, headers: fx.headers };
+    }
+    // The body goes to `<file>.part` and is renamed into place only once its size matches Content-Length and,
+    // for .pdf targets, checkPdfFile passes. A leftover .part (e.g. from a dropped connection) is resumed
+    // with a Range request guarded by If-Range, so a changed file on the server restarts from scratch.
     return this.limit(async () => {
-      if (this.delayMs) await sleep(this.delayMs);
-      const stream = this.client.stream(url);
       await fs.promises.mkdir(outDir, { recursive: true });
-      const outPath = path.join(outDir, filename ?? basenameFromUrl(url));
-      const fileStream = fs.createWriteStream(outPath);
-      await new Promise<void>((resolve, reject) => {
-        stream.on('error', reject);
-        fileStream.on('error', reject);
-        fileStream.on('finish', () => resolve());
+      const partPath = `${outPath}.part`;
+      const res = await this.send('GET', url, () => this.streamTo(url, partPath));
+      const problem = /\.pdf$/i.test(outPath) ? await checkPdfFile(partPath) : null;
+      if (problem) {
+        await removePart(partPath);
+        throw new DownloadIntegrityError(url, problem);
+      }
+      await fs.promises.rename(partPath, outPath);
+      await fs.promises.rm(`${partPath}.json`, { force: true });
+      if (this.fixtures) this.fixtures.recordFile('GET', url, snapshot(res), outPath);
+      return { path: outPath, headers: res.headers };
+    });
+  }
+
+  private async streamTo(url: string, partPath: string): Promise<Response> {
+    const have = await fileSize(partPath);
+    const validator = have > 0 ? readJson<PartMeta | null>(`${partPath}.json`, null)?.validator : null;
+    // Raw bytes so Content-Length describes what lands on disk
+    const headers: Record<string, string> = { 'accept-encoding': 'identity' };
+    if (have > 0 && validator) {
+      headers.range = `bytes=${have}-`;
+      headers['if-range'] = validator;
+    }
+    return new Promise<Response>((resolve, reject) => {
+      const stream = this.client.stream(url, { headers, decompress: false });
+      let fileStream: fs.WriteStream | undefined;
+      const fail = (err: any) => {
+        if (fileStream) {
+          stream.unpipe(fileStream);
+          fileStream.destroy();
+        }
+        if (err?.response?.statusCode === 416) {
+          // Our .part no longer lines up with the remote file; start over on the next attempt
+          removePart(partPath).finally(() => reject(new DownloadIntegrityError(url, 'range not satisfiable', true)));
+        } else {
+          reject(err);
+        }
+      };
+      stream.on('error', fail);
+      stream.on('response', (res: Response) => {
+        const append = res.statusCode === 206 && contentRangeStart(res.headers['content-range']) === have;
+        const length = parseInt(String(res.headers['content-length'] ?? ''), 10);
+        const expected = Number.isFinite(length) ? (append ? have : 0) + length : null;
+        if (!append) {
+          const v = headerValue(res.headers.etag) || headerValue(res.headers['last-modified']);
+          writeJson(`${partPath}.json`, { url, validator: v } satisfies PartMeta);
+        }
+        fileStream = fs.createWriteStream(partPath, { flags: append ? 'a' : 'w' });
+        fileStream.on('error', fail);
+        fileStream.on('finish', async () => {
+          const size = await fileSize(partPath);
+          if (expected !== null && size !== expected) {
+            // Short: keep the .part to resume. Long: something is off, discard it.
+            if (size > expected) await removePart(partPath);
+            reject(new DownloadIntegrityError(url, `got ${size} of ${expected} bytes`, true));
+            return;
+          }
+          resolve(res);
+        });
         stream.pipe(fileStream);
       });
-      return outPath;
     });
   }
+
+  // Politeness around one logical request: robots.txt, per-host token bucket, and retries with exponential
+  // backoff + jitter on 429/5xx/network errors (Retry-After wins when longer). In record mode, final error
+  // responses (404, 500, ...) are saved too so replay fails the same way.
+  private async send<T>(method: string, url: string, fn: () => Promise<T>): Promise<T> {
+    const host = new URL(url).host;
+    if (this.respectRobots && !(await this.allowedByRobots(url))) throw new RobotsDisallowedError(url);
+    for (let attempt = 1; ; attempt++) {
+      await this.hosts.take(host);
+      try {
+        const res = await fn();
+        this.hosts.recover(host);
+        return res;
+      } catch (err: any) {
+        const retryAfter = parseRetryAfter(err?.response?.headers?.['retry-after']);
+        const status = err?.response?.statusCode;
+        const canRetry = isRetryable(err) && attempt <= this.retry.maxRetries && (retryAfter ?? 0) <= this.retry.maxRetryAfterMs;
+        if (!canRetry) {
+          if (this.fixtures?.mode === 'record' && err?.response) {
+            this.fixtures.record(method, url, snapshot(err.response), typeof err.response.body === 'string' ? err.response.body : '');
+          }
+          throw err;
+        }
+        const wait = Math.max(retryAfter ?? 0, backoffDelay(attempt, this.retry.baseMs, this.retry.maxMs));
+        if (status === 429 || status === 503) this.hosts.slowDown(host, wait);
+        console.warn(`[http] ${method} ${url} -> ${err?.code && !(status >= 400) ? err.code : status}; retry ${attempt}/${this.retry.maxRetries} in ${wait}ms`);
+        await sleep(wait);
+      }
+    }
+  }
+
+  async allowedByRobots(url: string): Promise<boolean> {
+    if (this.fixtures?.mode === 'replay') return true;
+    return robotsAllows(await this.robotsFor(url), url);
+  }
+
+  // Sitemap URLs listed in the robots.txt of url's origin
+  async robotsSitemaps(url: string): Promise<string[]> {
+    if (this.fixtures?.mode === 'replay') return [];
+    return (await this.robotsFor(url)).sitemaps;
+  }
+
+  private robotsFor(url: string): Promise<RobotsPolicy> {
+    const u = new URL(url);
+    let policy = this.robots.get(u.origin);
+    if (!policy) {
+      policy = this.fetchRobots(u.origin);
+      this.robots.set(u.origin, policy);
+    }
+    return policy;
+  }
+
+  // 4xx means no restrictions; an unreachable robots.txt is treated the same but logged
+  private async fetchRobots(origin: string): Promise<RobotsPolicy> {
+    const robotsUrl = `${origin}/robots.txt`;
+    const host = new URL(origin).host;
+    try {
+      await this.hosts.take(host);
+      const res = await this.client.get(robotsUrl, { responseType: 'text', throwHttpErrors: false });
+      if (this.fixtures) this.fixtures.record('GET', robotsUrl, snapshot(res), res.body);
+      if (res.statusCode >= 400) return { rules: [], crawlDelayMs: null, sitemaps: [] };
+      const policy = parseRobots(res.body, this.userAgent);
+      if (policy.crawlDelayMs) this.hosts.setMinInterval(host, policy.crawlDelayMs);
+      return policy;
+    } catch (err: any) {
+      console.warn(`[http] robots.txt unavailable for ${origin}: ${err?.message || err}`);
+      return { rules: [], crawlDelayMs: null, sitemaps: [] };
+    }
+  }
+}
+
+function snapshot(res: Response<unknown>) {
+  return { finalUrl: res.url, statusCode: res.statusCode, headers: res.headers };
+}
+
+export class DownloadIntegrityError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly problem: string,
+    public readonly retryable = false
+  ) {
+    super(`download of ${url} failed verification: ${problem}`);
+    this.name = 'DownloadIntegrityError';
+  }
+}
+
+type PartMeta = { url: string; validator: string | null };
+
+async function fileSize(p: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(p)).size;
+  } catch {
+    return 0;
+  }
+}
+
+async function removePart(partPath: string) {
+  await fs.promises.rm(partPath, { force: true });
+  await fs.promises.rm(`${partPath}.json`, { force: true });
+}
+
+function contentRangeStart(v: string | string[] | undefined): number | null {
+  const m = String(headerValue(v) ?? '').match(/^bytes\s+(\d+)-/i);
+  return m ? parseInt(m[1], 10) : null;
+}
+
+export function headerValue(v: string | string[] | undefined): string | null {
+  if (Array.isArray(v)) return v[0] ?? null;
+  return v ?? null;
+}
+
+// HTML, XHTML and XML (sitemaps, RSS) responses
+function isCacheableType(v: string | string[] | undefined): boolean {
+  const type = String(headerValue(v) ?? '').split(';')[0].trim().toLowerCase();
+  return type === 'text/html' || type === 'text/xml' || type === 'application/xml' || type.endsWith('+xml');
 }
 
 function basenameFromUrl(urlStr: string): string {
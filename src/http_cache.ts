@@ -0,0 +1,62 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+export type CacheEntry = {
+  url: string;
+  finalUrl: string;
+  statusCode: number;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number; // epoch ms of the last fetch or successful revalidation
+  body: string;
+};
+
+// Persistent per-URL cache of text responses. Entries younger than ttlMs are served without a request;
+// older ones are revalidated with If-None-Match / If-Modified-Since.
+export class HttpCache {
+  constructor(
+    private readonly dir: string,
+    private readonly ttlMs = 0
+  ) {}
+
+  private file(url: string): string {
+    const key = crypto.createHash('sha1').update(url).digest('hex');
+    return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+
+  get(url: string): CacheEntry | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.file(url), 'utf-8')) as CacheEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  isFresh(entry: CacheEntry): boolean {
+    return this.ttlMs > 0 && Date.now() - entry.fetchedAt < this.ttlMs;
+  }
+
+  put(entry: CacheEntry) {
+    const file = this.file(entry.url);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write-then-rename so a crash never leaves a half-written entry
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(entry), 'utf-8');
+    fs.renameSync(tmp, file);
+  }
+
+  touch(entry: CacheEntry) {
+    this.put({ ...entry, fetchedAt: Date.now() });
+  }
+}
+
+// Enabled by default for crawls/populate; disable with --no-cache or HTTP_CACHE=0
+export function httpCacheFromEnv(): HttpCache | undefined {
+  if (process.argv.includes('--no-cache') || process.env.HTTP_CACHE === '0' || process.env.HTTP_CACHE === 'false') {
+    return undefined;
+  }
+  const dir = path.resolve(process.env.HTTP_CACHE_DIR || path.join('data', 'http-cache'));
+  const ttlMs = Math.max(0, parseInt(process.env.HTTP_CACHE_TTL_MS || '0', 10));
+  return new HttpCache(dir, ttlMs);
+}
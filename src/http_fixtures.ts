@@ -0,0 +1,83 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { readJson, writeJson } from './storage.js';
+
+export type HttpMode = 'live' | 'record' | 'replay';
+
+export type Fixture = {
+  method: string;
+  url: string;
+  finalUrl: string;
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  recordedAt: string;
+  bodyFile: string | null; // sibling file with the raw body (HTML or binary)
+};
+
+// Raised in replay mode for missing fixtures and for recorded error statuses. `response` mirrors got's
+// HTTPError so callers checking `e.response.statusCode` behave the same offline.
+export class ReplayError extends Error {
+  response?: { statusCode: number; url: string };
+
+  constructor(message: string, response?: { statusCode: number; url: string }) {
+    super(message);
+    this.name = 'ReplayError';
+    this.response = response;
+  }
+}
+
+// One .json (status, final URL, headers) + one .body file per request under <dir>/<host>/, named after the
+// path so fixtures are easy to find and open when a selector breaks.
+export class HttpFixtures {
+  constructor(
+    readonly dir: string,
+    readonly mode: Exclude<HttpMode, 'live'>
+  ) {}
+
+  private base(method: string, url: string): string {
+    const u = new URL(url);
+    const hash = crypto.createHash('sha1').update(`${method} ${url}`).digest('hex').slice(0, 10);
+    const slug = (u.pathname + u.search).replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'root';
+    return path.join(this.dir, u.host.replace(/:/g, '_'), `${method.toLowerCase()}-${slug}-${hash}`);
+  }
+
+  record(method: string, url: string, res: Omit<Fixture, 'method' | 'url' | 'recordedAt' | 'bodyFile'>, body?: Buffer | string) {
+    const base = this.base(method, url);
+    let bodyFile: string | null = null;
+    if (body !== undefined) {
+      fs.mkdirSync(path.dirname(base), { recursive: true });
+      fs.writeFileSync(`${base}.body`, body);
+      bodyFile = path.basename(`${base}.body`);
+    }
+    writeJson(`${base}.json`, { method, url, ...res, recordedAt: new Date().toISOString(), bodyFile } satisfies Fixture);
+  }
+
+  // Copy of a downloaded file into the fixture body, without holding it in memory
+  recordFile(method: string, url: string, res: Omit<Fixture, 'method' | 'url' | 'recordedAt' | 'bodyFile'>, filePath: string) {
+    const base = this.base(method, url);
+    fs.mkdirSync(path.dirname(base), { recursive: true });
+    fs.copyFileSync(filePath, `${base}.body`);
+    writeJson(`${base}.json`, { method, url, ...res, recordedAt: new Date().toISOString(), bodyFile: path.basename(`${base}.body`) } satisfies Fixture);
+  }
+
+  // Recorded response for the request; throws like got would for error statuses
+  replay(method: string, url: string): Fixture & { bodyPath: string | null } {
+    const base = this.base(method, url);
+    const fx = readJson<Fixture | null>(`${base}.json`, null);
+    if (!fx) throw new ReplayError(`[replay] no fixture for ${method} ${url} in ${this.dir}`);
+    if (fx.statusCode >= 400) {
+      throw new ReplayError(`Response code ${fx.statusCode} (replayed) for ${url}`, { statusCode: fx.statusCode, url: fx.finalUrl });
+    }
+    return { ...fx, bodyPath: fx.bodyFile ? path.join(path.dirname(base), fx.bodyFile) : null };
+  }
+}
+
+// HTTP_MODE=record|replay (or --record / --replay); fixtures live in HTTP_FIXTURES_DIR (default fixtures/http)
+export function httpFixturesFromEnv(): HttpFixtures | undefined {
+  let mode = (process.env.HTTP_MODE || 'live').toLowerCase() as HttpMode;
+  if (process.argv.includes('--record')) mode = 'record';
+  if (process.argv.includes('--replay')) mode = 'replay';
+  if (mode !== 'record' && mode !== 'replay') return undefined;
+  return new HttpFixtures(path.resolve(process.env.HTTP_FIXTURES_DIR || path.join('fixtures', 'http')), mode);
+}
@@ -1,15 +1,27 @@
 #!/usr/bin/env node
+import fs from 'node:fs';
 import path from 'node:path';
 import { Crawler } from './crawler.js';
 import { HttpClient } from './http.js';
+import { httpCacheFromEnv } from './http_cache.js';
+import { respectRobotsFromEnv } from './politeness.js';
 import { ensureDir, readJson, writeJson } from './storage.js';
 import { sanitizeFilename, urlBasename } from './utils.js';
+import { endPool } from './db.js';
+import { config } from './config.js';
+import { JobRun } from './job_runs.js';
+import { crawlDuplicates, saveCrawledPage } from './crawl_store.js';
 
-const BASE_URL = process.env.BASE_URL || 'https://manual.bandai-hobby.net/';
+const BASE_URL = config.crawl.baseUrl!;
 const DATA_DIR = path.resolve('data');
 const OUT_DIR = path.resolve('downloads');
 const URLS_FILE = path.join(DATA_DIR, 'discovered.json');
 const PDFS_FILE = path.join(DATA_DIR, 'pdfs.json');
+const DUPLICATES_FILE = path.join(DATA_DIR, 'duplicates.json');
+const FRONTIER_FILE = path.resolve(config.crawl.frontier!);
+const FRESH = process.argv.includes('--fresh') || process.env.CRAWL_FRESH === '1';
+const USE_DB = !(process.argv.includes('--no-db') || process.env.CRAWL_DB === '0');
+const USE_SITEMAPS = !(process.argv.includes('--no-sitemap') || process.env.SITEMAPS === '0');
 
 type Command = 'crawl' | 'download' | 'help';
 
@@ -30,26 +42,66 @@ async function main() {
 
 async function runCrawl() {
   console.log(`[crawl] base: ${BASE_URL}`);
+  if (FRESH) fs.rmSync(FRONTIER_FILE, { force: true });
+  const maxDepth = process.env.MAX_DEPTH ? parseInt(process.env.MAX_DEPTH, 10) : undefined;
+  const run = USE_DB
+    ? await JobRun.start('crawl', { base: BASE_URL, maxPages: process.env.MAX_PAGES ?? null, maxDepth: maxDepth ?? null })
+    : null;
   const crawler = new Crawler({
     baseUrl: BASE_URL,
-    includePathPatterns: [/manual/i, /item/i, /catalog/i, /pdf$/i],
+    includePathPatterns: [/manual/i, /\/menus\/detail\//, /item/i, /catalog/i, /pdf$/i],
     excludePathPatterns: [/\.(jpg|jpeg|png|gif|svg|webp)$/i, /#/, /\bfacebook\b|\btwitter\b/i],
     maxPages: parseInt(process.env.MAX_PAGES || '250', 10),
-    concurrency: parseInt(process.env.CONCURRENCY || '4', 10),
-    delayMs: parseInt(process.env.DELAY_MS || '300', 10),
-    timeoutMs: parseInt(process.env.TIMEOUT_MS || '30000', 10),
-    userAgent: process.env.USER_AGENT
+    maxDepth,
+    concurrency: config.http.concurrency,
+    delayMs: config.http.delayMs,
+    timeoutMs: config.http.timeoutMs,
+    userAgent: config.http.userAgent,
+    respectRobots: respectRobotsFromEnv(),
+    cache: httpCacheFromEnv(),
+    frontierFile: FRONTIER_FILE,
+    sitemaps: USE_SITEMAPS,
+    onPage: run
+      ? async (page) => {
+          run.seen++;
+          if (page.status === 'error') run.fail(page.url, page.error);
+          run.inserted += await saveCrawledPage(page);
+          if (run.seen % 50 === 0) await run.flush();
+        }
+      : undefined
   });
 
-  const res = await crawler.crawl();
+  let res;
+  try {
+    res = await crawler.crawl();
+    await run?.finish();
+  } catch (e) {
+    await run?.finish(e);
+    throw e;
+  }
+  // A resumed crawl adds to what earlier runs listed
+  const discovered = res.resumed ? union(readJson(URLS_FILE, [] as string[]), res.discovered) : res.discovered;
+  const pdfs = res.resumed ? union(readJson(PDFS_FILE, [] as string[]), res.pdfs) : res.pdfs;
+  // The database remembers every run; without it only this run's pages can be compared
+  const duplicates = run ? await crawlDuplicates() : res.duplicates;
   ensureDir(DATA_DIR);
-  writeJson(URLS_FILE, res.discovered);
-  writeJson(PDFS_FILE, res.pdfs);
-  console.log(`[crawl] visited: ${res.visitedCount}`);
+  writeJson(URLS_FILE, discovered);
+  writeJson(PDFS_FILE, pdfs);
+  writeJson(DUPLICATES_FILE, duplicates);
+  console.log(`[crawl] visited: ${res.visitedCount}${res.resumed ? ' (resumed)' : ''}`);
+  if (res.sitemapUrls) console.log(`[crawl] queued from sitemaps: ${res.sitemapUrls}`);
   console.log(`[crawl] discovered: ${res.discovered.length}`);
   console.log(`[crawl] manual pages: ${res.manualPages.length}`);
-  console.log(`[crawl] pdfs: ${res.pdfs.length}`);
-  console.log(`[crawl] saved: ${URLS_FILE}, ${PDFS_FILE}`);
+  console.log(`[crawl] pdfs: ${res.pdfs.length}${run ? `, new in DB: ${run.inserted}` : ''}`);
+  console.log(`[crawl] duplicate content: ${duplicates.length} groups, ${duplicates.reduce((n, d) => n + d.urls.length, 0)} pages`);
+  for (const d of duplicates.slice(0, 10)) console.log(`  ${d.urls.join('  =  ')}`);
+  console.log(`[crawl] saved: ${URLS_FILE}, ${PDFS_FILE}, ${DUPLICATES_FILE}${USE_DB ? ', bandai.crawl_pages, bandai.crawl_pdfs' : ''}`);
+  if (res.remaining) console.log(`[crawl] ${res.remaining} URLs left in ${FRONTIER_FILE}; run again to continue (--fresh to start over)`);
+  else console.log('[crawl] complete');
+}
+
+function union(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b])).sort();
 }
 
 async function runDownload() {
@@ -60,9 +112,9 @@ async function runDownload() {
   }
 
   const http = new HttpClient({
-    concurrency: parseInt(process.env.CONCURRENCY || '4', 10),
-    delayMs: parseInt(process.env.DELAY_MS || '300', 10),
-    userAgent: process.env.USER_AGENT
+    concurrency: config.http.concurrency,
+    delayMs: config.http.delayMs,
+    userAgent: config.http.userAgent
   });
 
   console.log(`[download] files: ${pdfs.length}`);
@@ -88,11 +140,17 @@ function printHelp() {
   console.log('  npm run download  # Download PDFs discovered by crawl');
   console.log('Env:');
   console.log('  BASE_URL=https://manual.bandai-hobby.net/');
-  console.log('  MAX_PAGES=250 CONCURRENCY=4 DELAY_MS=300 USER_AGENT=...');
+  console.log('  MAX_PAGES=250 MAX_DEPTH=unlimited CONCURRENCY=4 DELAY_MS=300 USER_AGENT=...');
+  console.log('  CRAWL_FRONTIER=data/crawl-frontier.json (crawl resumes from it; --fresh or CRAWL_FRESH=1 to start over)');
+  console.log('  CRAWL_DB=0 or --no-db to skip writing bandai.crawl_pages / bandai.crawl_pdfs');
+  console.log('  SITEMAPS=0 or --no-sitemap to seed a new crawl from BASE_URL only (default: robots.txt sitemaps or /sitemap.xml)');
+  console.log('  HTTP_CACHE_DIR=data/http-cache HTTP_CACHE_TTL_MS=0 (HTTP_CACHE=0 or --no-cache to disable)');
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(() => endPool());
 
@@ -0,0 +1,91 @@
+import { withClient } from './db.js';
+import { report } from './cli_output.js';
+
+export type JobType = 'populate' | 'categories' | 'download' | 'images' | 'upload' | 'transfer' | 'verify' | 'revalidate' | 'text' | 'metadata' | 'previews' | 'names' | 'releases' | 'crawl';
+
+// Lets jobs that manage their own pools (e.g. transfer) record into a specific database
+export type JobQuery = (sql: string, params: unknown[]) => Promise<{ rows: any[] }>;
+
+const defaultQuery: JobQuery = (sql, params) => withClient((c) => c.query(sql, params));
+
+const MAX_ERROR_SAMPLES = 20;
+
+type ErrorSample = { item: string | number | null; message: string; at: string };
+
+function errorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+// Counters for one job run in bandai.job_runs; recording is best-effort so a failed write never aborts the job
+export class JobRun {
+  seen = 0;
+  inserted = 0;
+  updated = 0;
+  failed = 0;
+  private errors: ErrorSample[] = [];
+
+  private constructor(
+    private readonly id: number | null,
+    private readonly jobType: JobType,
+    private readonly tag: string,
+    private readonly query: JobQuery
+  ) {}
+
+  static async start(jobType: JobType, args: Record<string, unknown>, query: JobQuery = defaultQuery): Promise<JobRun> {
+    const tag = `[job:${jobType}]`;
+    try {
+      const res = await query('INSERT INTO bandai.job_runs (job_type, args) VALUES ($1, $2) RETURNING id', [
+        jobType,
+        JSON.stringify(args)
+      ]);
+      return new JobRun(Number(res.rows[0].id), jobType, tag, query);
+    } catch (e) {
+      console.warn(`${tag} not recording run: ${errorMessage(e)}`);
+      return new JobRun(null, jobType, tag, query);
+    }
+  }
+
+  fail(item: string | number | null, err: unknown) {
+    this.failed++;
+    if (this.errors.length < MAX_ERROR_SAMPLES) {
+      this.errors.push({ item, message: errorMessage(err), at: new Date().toISOString() });
+    }
+  }
+
+  // Persist current counters while the job is still running
+  async flush() {
+    await this.write(null, null);
+  }
+
+  async finish(err?: unknown) {
+    const status = err === undefined ? 'succeeded' : 'failed';
+    report({
+      job: this.jobType,
+      runId: this.id,
+      status,
+      seen: this.seen,
+      inserted: this.inserted,
+      updated: this.updated,
+      failed: this.failed,
+      errors: this.errors
+    });
+    await this.write(status, err === undefined ? null : errorMessage(err));
+  }
+
+  private async write(status: 'succeeded' | 'failed' | null, error: string | null) {
+    if (this.id === null) return;
+    try {
+      await this.query(
+        `UPDATE bandai.job_runs SET
+           items_seen = $2, items_inserted = $3, items_updated = $4, items_failed = $5, error_samples = $6,
+           status = COALESCE($7, status), error = COALESCE($8, error),
+           finished_at = CASE WHEN $7::text IS NULL THEN finished_at ELSE now() END
+         WHERE id = $1`,
+        [this.id, this.seen, this.inserted, this.updated, this.failed, JSON.stringify(this.errors), status, error]
+      );
+    } catch (e) {
+      console.warn(`${this.tag} failed to record run ${this.id}: ${errorMessage(e)}`);
+    }
+  }
+}
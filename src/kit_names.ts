@@ -0,0 +1,226 @@
+import { inferGrade } from './grades.js';
+
+// Structured fields read out of a kit name such as "HG 1/144 GUNDAM AERIAL [CLEAR COLOR]". The listing only
+// gives us names, so populate stores these next to them; the detail page's series/scale win when present.
+export type KitName = {
+  grade: string | null;
+  scale: string | null; // "1/144", or "NON SCALE"
+  series: string | null; // canonical English title from SERIES or MOBILE_SUITS below
+  modelNumber: string | null; // mobile suit designation, e.g. "RX-78-2", "XVX-016"
+  variantTags: string[]; // e.g. ["CLEAR COLOR", "VER.KA"]
+};
+
+type Series = { name: string; spellings: string[] };
+
+// Titles that show up in kit names. Longer spellings are tried first, so "SEED FREEDOM" beats "SEED".
+const SERIES: Series[] = [
+  { name: 'The Witch from Mercury', spellings: ['WITCH FROM MERCURY', '水星の魔女'] },
+  { name: 'Iron-Blooded Orphans', spellings: ['IRON-BLOODED ORPHANS', 'IRON BLOODED ORPHANS', '鉄血のオルフェンズ'] },
+  { name: 'Gundam SEED FREEDOM', spellings: ['SEED FREEDOM'] },
+  { name: 'Gundam SEED DESTINY', spellings: ['SEED DESTINY'] },
+  { name: 'Gundam SEED', spellings: ['SEED'] },
+  { name: 'Gundam AGE', spellings: ['GUNDAM AGE'] },
+  { name: 'Gundam Unicorn', spellings: ['UNICORN', 'ユニコーン'] },
+  { name: 'Hathaway', spellings: ["HATHAWAY'S FLASH", 'HATHAWAY', '閃光のハサウェイ'] },
+  { name: 'Gundam Thunderbolt', spellings: ['THUNDERBOLT', 'サンダーボルト'] },
+  { name: 'The Origin', spellings: ['THE ORIGIN', 'ジ・オリジン'] },
+  { name: 'GQuuuuuuX', spellings: ['GQUUUUUUX', 'ジークアクス'] },
+  { name: 'Build Fighters', spellings: ['BUILD FIGHTERS', 'ビルドファイターズ'] },
+  { name: 'Build Divers Re:RISE', spellings: ['BUILD DIVERS RE:RISE', 'ビルドダイバーズRe:RISE'] },
+  { name: 'Build Divers', spellings: ['BUILD DIVERS', 'ビルドダイバーズ'] },
+  { name: 'Build Metaverse', spellings: ['BUILD METAVERSE', 'ビルドメタバース'] },
+  { name: 'Star Wars', spellings: ['STAR WARS', 'スター・ウォーズ', 'スターウォーズ'] },
+  { name: 'Pokémon', spellings: ['POKEMON', 'POKÉMON', 'ポケモン', 'ポケプラ'] },
+  { name: 'Dragon Ball', spellings: ['DRAGON BALL', 'ドラゴンボール'] },
+  { name: 'Evangelion', spellings: ['EVANGELION', 'エヴァンゲリオン'] },
+  { name: 'Macross', spellings: ['MACROSS', 'マクロス'] },
+  { name: 'Space Battleship Yamato', spellings: ['YAMATO', 'ヤマト'] },
+  { name: 'Ultraman', spellings: ['ULTRAMAN', 'ウルトラマン'] },
+  { name: 'Kamen Rider', spellings: ['KAMEN RIDER', '仮面ライダー'] }
+];
+
+// Kit names rarely carry the title ("HG 1/144 GUNDAM AERIAL"), so the series is also looked up from the mobile
+// suit. Only names that belong to one series are listed: "ZAKU" or "DOM" alone would be a guess.
+const MOBILE_SUITS: Series[] = [
+  {
+    name: 'The Witch from Mercury',
+    spellings: ['AERIAL', 'エアリアル', 'LFRITH', 'ルブリス', 'DARILBALDE', 'ダリルバルデ', 'PHARACT', 'ファラクト', 'MICHAELIS', 'ミカエリス',
+      'SCHWARZETTE', 'シュバルゼッテ', 'CALIBARN', 'キャリバーン', 'DILANZA', 'ディランザ', 'DEMI TRAINER', 'デミトレーナー', 'HEINDREE']
+  },
+  {
+    name: 'Iron-Blooded Orphans',
+    spellings: ['BARBATOS', 'バルバトス', 'KIMARIS', 'キマリス', 'GUSION', 'グシオン', 'FLAUROS', 'フラウロス', 'BAEL', 'バエル',
+      'VIDAR', 'ヴィダール', 'HYAKUREN', '百錬', 'GRAZE', 'グレイズ']
+  },
+  {
+    name: 'Gundam SEED FREEDOM',
+    spellings: ['RISING FREEDOM', 'ライジングフリーダム', 'IMMORTAL JUSTICE', 'イモータルジャスティス', 'MIGHTY STRIKE FREEDOM',
+      'マイティーストライクフリーダム', 'BLACK KNIGHT SQUAD']
+  },
+  {
+    name: 'Gundam SEED DESTINY',
+    spellings: ['STRIKE FREEDOM', 'ストライクフリーダム', 'INFINITE JUSTICE', 'インフィニットジャスティス', 'DESTINY GUNDAM', 'デスティニーガンダム',
+      'IMPULSE', 'インパルス', 'LEGEND GUNDAM', 'レジェンドガンダム', 'SAVIOUR', 'ZAKU WARRIOR', 'ザクウォーリア', 'GOUF IGNITED', 'AKATSUKI', 'アカツキ']
+  },
+  {
+    name: 'Gundam SEED',
+    spellings: ['FREEDOM GUNDAM', 'フリーダムガンダム', 'JUSTICE GUNDAM', 'ジャスティスガンダム', 'STRIKE GUNDAM', 'ストライクガンダム',
+      'AILE STRIKE', 'エールストライク', 'AEGIS', 'イージス', 'BLITZ', 'ブリッツ', 'BUSTER GUNDAM', 'DUEL GUNDAM', 'ASTRAY', 'アストレイ']
+  },
+  {
+    name: 'Gundam Unicorn',
+    spellings: ['BANSHEE', 'バンシィ', 'SINANJU', 'シナンジュ', 'KSHATRIYA', 'クシャトリヤ', 'DELTA PLUS', 'デルタプラス', 'NEO ZEONG', 'ネオ・ジオング']
+  },
+  { name: 'Hathaway', spellings: ['XI GUNDAM', 'Ξガンダム', 'PENELOPE', 'ペーネロペー'] },
+  { name: 'Gundam Wing', spellings: ['WING GUNDAM', 'ウイングガンダム', 'WING ZERO', 'ウイングゼロ', 'DEATHSCYTHE', 'デスサイズ', 'HEAVYARMS',
+      'ヘビーアームズ', 'SANDROCK', 'サンドロック', 'ALTRON', 'アルトロン', 'TALLGEESE', 'トールギス', 'EPYON', 'エピオン'] },
+  { name: 'Gundam 00', spellings: ['EXIA', 'エクシア', 'DYNAMES', 'デュナメス', 'KYRIOS', 'キュリオス', 'VIRTUE', 'ヴァーチェ', '00 RAISER',
+      'ダブルオーライザー', '00 QAN[T]', 'ダブルオークアンタ', 'CHERUDIM', 'ケルディム', 'ARIOS', 'アリオス', 'SERAVEE', 'セラヴィー', 'ASTRAEA'] },
+  { name: 'G Gundam', spellings: ['GOD GUNDAM', 'ゴッドガンダム', 'SHINING GUNDAM', 'シャイニングガンダム', 'MASTER GUNDAM', 'マスターガンダム'] },
+  { name: "Char's Counterattack", spellings: ['NU GUNDAM', 'νガンダム', 'HI-NU', 'Hi-ν', 'SAZABI', 'サザビー', 'JEGAN', 'ジェガン', 'GEARA DOGA',
+      'ギラ・ドーガ', 'JAGD DOGA', 'ヤクト・ドーガ', 'RE-GZ', 'リ・ガズィ'] },
+  { name: 'Zeta Gundam', spellings: ['ZETA GUNDAM', 'Zガンダム', 'GUNDAM MK-II', 'ガンダムMk-II', 'HYAKU SHIKI', '百式',
+      'THE O', 'ジ・O', 'HAMBRABI', 'ハンブラビ', 'PALACE ATHENE', 'パラス・アテネ'] },
+  { name: 'Gundam ZZ', spellings: ['ZZ GUNDAM', 'ZZガンダム', 'ΖΖガンダム', 'DOUBLE ZETA', 'QUBELEY', 'キュベレイ'] },
+  { name: 'Mobile Suit Gundam', spellings: ['RX-78-2', 'ZAKU II', 'ザクII', 'GUNCANNON', 'ガンキャノン', 'GUNTANK', 'ガンタンク',
+      'GELGOOG', 'ゲルググ', 'GYAN', 'ギャン', "Z'GOK", 'ズゴック', 'ACGUY', 'アッガイ'] },
+  { name: 'Build Fighters', spellings: ['BUILD STRIKE', 'ビルドストライク', 'STAR BUILD STRIKE', 'TRY BURNING', 'トライバーニング',
+      'WINNING GUNDAM', 'ウイニングガンダム'] },
+  { name: 'Build Divers', spellings: ['00 DIVER', 'ダブルオーダイバー'] },
+  { name: 'Build Divers Re:RISE', spellings: ['CORE GUNDAM', 'コアガンダム', 'EARTHREE', 'アースリィ'] },
+  { name: 'Reconguista in G', spellings: ['G-SELF', 'G-セルフ', 'G-ARCANE', 'G-アルケイン'] },
+  { name: 'Turn A Gundam', spellings: ['TURN A', '∀ガンダム', 'TURN X', 'ターンX'] }
+];
+
+// Finishes and editions, in English and Japanese, mapped to one tag each
+const VARIANTS: Array<{ tag: string; spellings: string[] }> = [
+  { tag: 'CLEAR COLOR', spellings: ['CLEAR COLOR', 'CLEAR COLOUR', 'クリアカラー'] },
+  { tag: 'METALLIC', spellings: ['METALLIC', 'メタリック'] },
+  { tag: 'COATING', spellings: ['SPECIAL COATING', 'COATING', 'コーティング'] },
+  { tag: 'TITANIUM FINISH', spellings: ['TITANIUM FINISH', 'チタニウムフィニッシュ'] },
+  { tag: 'PLATED', spellings: ['PLATED', 'メッキ'] },
+  { tag: 'PEARL', spellings: ['PEARL', 'パール'] },
+  { tag: 'REVIVE', spellings: ['REVIVE', 'リバイブ'] },
+  { tag: 'P-BANDAI', spellings: ['PREMIUM BANDAI', 'P-BANDAI', 'プレミアムバンダイ'] },
+  { tag: 'EXPO', spellings: ['GUNPLA EXPO', 'ガンプラEXPO'] },
+  { tag: 'LIMITED', spellings: ['LIMITED', '限定'] }
+];
+
+const BRACKETS = /[[［【〔]([^\]］】〕]+)[\]］】〕]/g;
+
+function escape(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Latin spellings need word boundaries ("SEED" is not in "SEEDS"); Japanese ones are plain substrings
+function spellingRe(spelling: string): RegExp {
+  const body = escape(spelling).replace(/ /g, '\\s*');
+  return /^[\x20-\x7e]+$/.test(spelling) ? new RegExp(`(^|[^A-Z0-9])${body}(?=[^A-Z0-9]|$)`, 'i') : new RegExp(body, 'i');
+}
+
+const SERIES_RES = SERIES.flatMap((s) => s.spellings.map((sp) => ({ name: s.name, re: spellingRe(sp), len: sp.length }))).sort(
+  (a, b) => b.len - a.len
+);
+const SUIT_RES = MOBILE_SUITS.flatMap((s) => s.spellings.map((sp) => ({ name: s.name, re: spellingRe(sp), len: sp.length }))).sort(
+  (a, b) => b.len - a.len
+);
+const VARIANT_RES = VARIANTS.flatMap((v) => v.spellings.map((sp) => ({ tag: v.tag, re: spellingRe(sp), len: sp.length }))).sort(
+  (a, b) => b.len - a.len
+);
+
+function canon(s: string): string {
+  return s.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+export function parseScale(text: string): string | null {
+  const m = canon(text).match(/(^|[^0-9/])1\s*\/\s*(\d{2,4})(?![0-9])/);
+  if (m) return `1/${m[2]}`;
+  return /NON[ -]?SCALE|ノンスケール/i.test(text) ? 'NON SCALE' : null;
+}
+
+// Letters, a hyphen, then parts with at least one digit: RX-78-2, MSN-04, ZGMF-X10A, ASW-G-08, eEXM-17.
+// "RE/100", "1/144" and "Ver.2.0" don't fit the shape.
+const MODEL_NUMBER = /(^|[^A-Za-z0-9-])([A-Za-z]{1,6}(?:-[A-Za-z0-9]+)*-[A-Za-z]*\d[A-Za-z0-9]*(?:-[A-Za-z0-9]+)*)(?![A-Za-z0-9-])/;
+
+export function parseModelNumber(text: string): string | null {
+  const m = canon(text).match(MODEL_NUMBER);
+  return m ? m[2].toUpperCase().replace(/^E(?=[A-Z]+-)/, 'e') : null;
+}
+
+// Earliest match wins; on a tie the longer spelling, which comes first ("STRIKE FREEDOM" over "STRIKE GUNDAM")
+function firstMatch(res: Array<{ name: string; re: RegExp }>, v: string): string | null {
+  let best: { name: string; at: number } | null = null;
+  for (const s of res) {
+    const hit = s.re.exec(v);
+    if (hit && (!best || hit.index < best.at)) best = { name: s.name, at: hit.index };
+  }
+  return best?.name ?? null;
+}
+
+// A title in the name wins; otherwise the mobile suit names the series
+export function parseSeries(text: string): string | null {
+  const v = canon(text);
+  return firstMatch(SERIES_RES, v) ?? firstMatch(SUIT_RES, v);
+}
+
+export function parseVariantTags(text: string): string[] {
+  const v = canon(text);
+  const tags = new Set<string>();
+  let rest = v;
+  for (const t of VARIANT_RES) {
+    if (t.re.test(rest)) {
+      tags.add(t.tag);
+      rest = rest.replace(new RegExp(t.re.source, 'gi'), ' ');
+    }
+  }
+  const ver = v.match(/(^|[^A-Z0-9])VER\.?\s*([A-Z0-9][A-Z0-9.]*[A-Z0-9]|[A-Z0-9])(?![A-Z0-9])/i);
+  if (ver) tags.add(`VER.${ver[2].toUpperCase()}`);
+  // Whatever else sits in square brackets is an edition note too ("[EXPO LIMITED]" is covered above)
+  for (const m of v.matchAll(BRACKETS)) {
+    const inner = canon(m[1]);
+    if (!VARIANT_RES.some((t) => t.re.test(inner)) && !/^VER\b/i.test(inner)) tags.add(inner.toUpperCase());
+  }
+  return [...tags];
+}
+
+export function parseKitName(nameEn: string | null | undefined, nameJp: string | null | undefined): KitName {
+  const texts = [nameEn, nameJp].filter((s): s is string => !!s && s.trim() !== '');
+  const first = <T>(f: (s: string) => T | null): T | null => {
+    for (const t of texts) {
+      const v = f(t);
+      if (v !== null) return v;
+    }
+    return null;
+  };
+  return {
+    grade: inferGrade(nameEn, nameJp),
+    scale: first(parseScale),
+    series: first(parseSeries),
+    modelNumber: first(parseModelNumber),
+    variantTags: [...new Set(texts.flatMap(parseVariantTags))]
+  };
+}
+
+// Names with known answers; `npm run parse:names -- --check` fails when the parser stops agreeing with them
+export const KIT_NAME_EXAMPLES: Array<{ name: string; expected: Partial<KitName> }> = [
+  { name: 'HG 1/144 GUNDAM AERIAL [CLEAR COLOR]', expected: { grade: 'HG', scale: '1/144', series: 'The Witch from Mercury', variantTags: ['CLEAR COLOR'] } },
+  { name: 'MG 1/100 STRIKE FREEDOM GUNDAM', expected: { grade: 'MG', scale: '1/100', series: 'Gundam SEED DESTINY' } },
+  { name: 'HGBF BUILD STRIKE GUNDAM FULL PACKAGE', expected: { grade: 'HGBF', series: 'Build Fighters' } },
+  { name: 'PG UNLEASHED 1/60 RX-78-2 GUNDAM', expected: { grade: 'PGU', scale: '1/60', series: 'Mobile Suit Gundam', modelNumber: 'RX-78-2' } },
+  { name: 'MG 1/100 SAZABI Ver.Ka', expected: { series: "Char's Counterattack", variantTags: ['VER.KA'] } }
+];
+
+// One line per field that differs from KIT_NAME_EXAMPLES
+export function checkKitNameExamples(): string[] {
+  const problems: string[] = [];
+  for (const { name, expected } of KIT_NAME_EXAMPLES) {
+    const got = parseKitName(name, null);
+    for (const [field, want] of Object.entries(expected)) {
+      const have = got[field as keyof KitName];
+      if (JSON.stringify(have) !== JSON.stringify(want)) {
+        problems.push(`${name}: ${field} is ${JSON.stringify(have)}, expected ${JSON.stringify(want)}`);
+      }
+    }
+  }
+  return problems;
+}
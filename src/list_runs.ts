@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+import './config.js';
+import { withClient, endPool } from './db.js';
+
+type RunRow = {
+  id: string;
+  job_type: string;
+  status: string;
+  started_at: Date;
+  finished_at: Date | null;
+  items_seen: number;
+  items_inserted: number;
+  items_updated: number;
+  items_failed: number;
+  error_samples: Array<{ item: string | number | null; message: string }>;
+  error: string | null;
+};
+
+function getFlag(name: string): string | undefined {
+  const argv = process.argv.slice(2);
+  const idx = argv.indexOf(`--${name}`);
+  if (idx >= 0 && argv[idx + 1]) return argv[idx + 1];
+  return undefined;
+}
+
+const JOB_TYPE = getFlag('type') || process.env.JOB_TYPE;
+const LIMIT = parseInt(getFlag('limit') || process.env.LIMIT || '20', 10);
+const SHOW_ERRORS = process.argv.includes('--errors');
+
+function fmtTime(d: Date | null): string {
+  return d ? d.toISOString().replace('T', ' ').replace(/\.\d+Z$/, 'Z') : '—';
+}
+
+function fmtDuration(r: RunRow): string {
+  if (!r.finished_at) return 'running';
+  const secs = Math.round((r.finished_at.getTime() - r.started_at.getTime()) / 1000);
+  if (secs < 60) return `${secs}s`;
+  if (secs < 3600) return `${Math.floor(secs / 60)}m${String(secs % 60).padStart(2, '0')}s`;
+  return `${Math.floor(secs / 3600)}h${String(Math.floor((secs % 3600) / 60)).padStart(2, '0')}m`;
+}
+
+async function lastSuccessful(): Promise<RunRow[]> {
+  const res = await withClient((c) =>
+    c.query(
+      `SELECT DISTINCT ON (job_type) *
+       FROM bandai.job_runs
+       WHERE status = 'succeeded'
+       ORDER BY job_type, started_at DESC`
+    )
+  );
+  return res.rows as RunRow[];
+}
+
+async function recentRuns(): Promise<RunRow[]> {
+  const params: any[] = [];
+  let where = '';
+  if (JOB_TYPE) {
+    params.push(JOB_TYPE);
+    where = 'WHERE job_type = $1';
+  }
+  params.push(Math.max(1, LIMIT));
+  const res = await withClient((c) =>
+    c.query(
+      `SELECT * FROM bandai.job_runs
+       ${where}
+       ORDER BY started_at DESC
+       LIMIT $${params.length}`,
+      params
+    )
+  );
+  return res.rows as RunRow[];
+}
+
+async function main() {
+  console.log('Last successful run per job:');
+  for (const r of await lastSuccessful()) {
+    console.log(
+      `  ${r.job_type.padEnd(9)} ${fmtTime(r.started_at)}  seen=${r.items_seen} inserted=${r.items_inserted} updated=${r.items_updated} failed=${r.items_failed}`
+    );
+  }
+
+  const rows = await recentRuns();
+  console.log(`\nRecent runs${JOB_TYPE ? ` (${JOB_TYPE})` : ''}:`);
+  console.log('  id      job       status     started               duration  seen  ins   upd   fail');
+  for (const r of rows) {
+    console.log(
+      `  ${String(r.id).padEnd(7)} ${r.job_type.padEnd(9)} ${r.status.padEnd(10)} ${fmtTime(r.started_at).padEnd(21)} ` +
+        `${fmtDuration(r).padEnd(9)} ${String(r.items_seen).padEnd(5)} ${String(r.items_inserted).padEnd(5)} ` +
+        `${String(r.items_updated).padEnd(5)} ${r.items_failed}`
+    );
+    if (r.error) console.log(`          error: ${r.error}`);
+    if (SHOW_ERRORS) {
+      for (const e of r.error_samples || []) console.log(`          - ${e.item ?? '—'}: ${e.message}`);
+    }
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[runs] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
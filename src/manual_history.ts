@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+import './config.js';
+import { withClient, endPool } from './db.js';
+
+type Revision = {
+  id: string;
+  manual_id: number;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  source: string | null;
+  changed_at: Date;
+  name_en: string | null;
+  name_jp: string | null;
+};
+
+function getFlag(name: string): string | undefined {
+  const argv = process.argv.slice(2);
+  const idx = argv.indexOf(`--${name}`);
+  if (idx >= 0 && argv[idx + 1]) return argv[idx + 1];
+  return undefined;
+}
+
+const ID_ARG = process.argv.slice(2).find((a) => /^\d+$/.test(a));
+const FIELD = getFlag('field');
+const SINCE = getFlag('since'); // e.g. 2024-11-01
+const LIMIT = parseInt(getFlag('limit') || process.env.LIMIT || '50', 10);
+
+async function getRevisions(opts: { manualId?: number; field?: string; since?: string; limit?: number }): Promise<Revision[]> {
+  const params: any[] = [];
+  const where: string[] = [];
+  if (opts.manualId !== undefined) {
+    params.push(opts.manualId);
+    where.push(`r.manual_id = $${params.length}`);
+  }
+  if (opts.field) {
+    params.push(opts.field);
+    where.push(`r.field = $${params.length}`);
+  }
+  if (opts.since) {
+    params.push(opts.since);
+    where.push(`r.changed_at >= $${params.length}`);
+  }
+  params.push(Math.max(1, opts.limit ?? 50));
+  const sql = `
+    SELECT r.id, r.manual_id, r.field, r.old_value, r.new_value, r.source, r.changed_at, m.name_en, m.name_jp
+    FROM bandai.manual_revisions r
+    JOIN bandai.manuals m ON m.manual_id = r.manual_id
+    ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
+    ORDER BY r.changed_at DESC, r.id DESC
+    LIMIT $${params.length}
+  `;
+  const res = await withClient((c) => c.query(sql, params));
+  return res.rows as Revision[];
+}
+
+function fmtValue(v: string | null): string {
+  return v === null ? '∅' : JSON.stringify(v);
+}
+
+async function main() {
+  const manualId = ID_ARG ? parseInt(ID_ARG, 10) : undefined;
+  const rows = await getRevisions({ manualId, field: FIELD, since: SINCE, limit: LIMIT });
+  if (manualId !== undefined) {
+    const label = rows[0] ? rows[0].name_en || rows[0].name_jp || '' : '';
+    console.log(`[history] manual ${manualId}${label ? ` — ${label}` : ''}: ${rows.length} change(s)`);
+  } else {
+    console.log(`[history] latest ${rows.length} change(s) across all manuals`);
+  }
+  for (const r of rows) {
+    const when = r.changed_at.toISOString().replace('T', ' ').replace(/\.\d+Z$/, 'Z');
+    const who = r.manual_id === manualId ? '' : ` #${r.manual_id}`;
+    console.log(`  ${when}${who} ${r.field}: ${fmtValue(r.old_value)} → ${fmtValue(r.new_value)}${r.source ? ` (${r.source})` : ''}`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[history] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -2,6 +2,11 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { withClient, endPool } from './db.js';
+import { report } from './cli_output.js';
+import { writeGradesTable } from './grades_table.js';
+
+// --dry-run lists the migrations that would be applied
+const DRY_RUN = process.argv.includes('--dry-run') || process.env.DRY_RUN === '1';
 
 async function ensureMigrationsTable() {
   await withClient(async (c) => {
@@ -21,6 +26,12 @@ async function alreadyApplied(filename: string): Promise<boolean> {
   return res.rowCount > 0;
 }
 
+// A dry run does not create the migrations table; without it (fresh database) nothing has been applied
+async function hasMigrationsTable(): Promise<boolean> {
+  const res = await withClient((c) => c.query("SELECT to_regclass('bandai.migrations') IS NOT NULL AS present"));
+  return res.rows[0].present;
+}
+
 async function applyMigration(filename: string, sql: string) {
   await withClient(async (c) => {
     await c.query('BEGIN');
@@ -38,20 +49,32 @@ async function applyMigration(filename: string, sql: string) {
 
 async function main() {
   const dir = path.resolve('migrations');
-  await ensureMigrationsTable();
+  if (!DRY_RUN) await ensureMigrationsTable();
+  const tracked = DRY_RUN ? await hasMigrationsTable() : true;
   const files = fs
     .readdirSync(dir)
     .filter((f) => f.endsWith('.sql'))
     .sort();
 
+  const todo: string[] = [];
   for (const f of files) {
-    if (await alreadyApplied(f)) {
+    if (tracked && (await alreadyApplied(f))) {
+      continue;
+    }
+    if (DRY_RUN) {
+      console.log(`[migrate] pending ${f}`);
+      todo.push(f);
       continue;
     }
     const full = path.join(dir, f);
     const sql = fs.readFileSync(full, 'utf-8');
     await applyMigration(f, sql);
+    todo.push(f);
   }
+  if (!todo.length) console.log('[migrate] up to date');
+  // bandai.grades follows src/grades.ts rather than a migration per added grade
+  if (!DRY_RUN) await withClient((c) => writeGradesTable(c));
+  report(DRY_RUN ? { dryRun: true, pending: todo } : { applied: todo });
 }
 
 main()
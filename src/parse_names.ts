@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+import './config.js';
+import { endPool } from './db.js';
+import { runBackfill } from './backfill.js';
+import { checkKitNameExamples, parseKitName } from './kit_names.js';
+
+// Backfills scale, series, model_number and variant_tags from the names of manuals already in the database,
+// with the same rule as populate: series/scale from a scraped detail page are kept. Rerun after improving
+// src/kit_names.ts; rows whose parsed fields did not change are not written. `--check` only runs the parser
+// against KIT_NAME_EXAMPLES and needs no database.
+type Row = {
+  manual_id: number;
+  name_en: string | null;
+  name_jp: string | null;
+  series: string | null;
+  scale: string | null;
+  model_number: string | null;
+  variant_tags: string[];
+  detail_scraped_at: Date | null;
+};
+
+type Parsed = { series: string | null; scale: string | null; modelNumber: string | null; variantTags: string[] };
+
+// What the row should hold after parsing; detail-page series/scale stay as they are
+function target(r: Row): Parsed {
+  const kit = parseKitName(r.name_en, r.name_jp);
+  const fromDetail = r.detail_scraped_at !== null;
+  return {
+    series: fromDetail && r.series !== null ? r.series : kit.series,
+    scale: fromDetail && r.scale !== null ? r.scale : kit.scale,
+    modelNumber: kit.modelNumber,
+    variantTags: kit.variantTags
+  };
+}
+
+function differs(r: Row, p: Parsed): boolean {
+  return (
+    r.series !== p.series ||
+    r.scale !== p.scale ||
+    r.model_number !== p.modelNumber ||
+    r.variant_tags.join('\u0000') !== p.variantTags.join('\u0000')
+  );
+}
+
+async function main() {
+  if (process.argv.includes('--check')) {
+    const problems = checkKitNameExamples();
+    for (const p of problems) console.error(`[parse:names] ${p}`);
+    console.log(`[parse:names] examples: ${problems.length ? `${problems.length} mismatch(es)` : 'all parse as expected'}`);
+    if (problems.length) process.exitCode = 1;
+    return;
+  }
+  await runBackfill<Row, Parsed>({
+    name: 'parse:names',
+    jobType: 'names',
+    columns: 'manual_id, name_en, name_jp, series, scale, model_number, variant_tags, detail_scraped_at',
+    where: ['(name_en IS NOT NULL OR name_jp IS NOT NULL)'],
+    derive: target,
+    differs,
+    update: `UPDATE bandai.manuals SET series = $2, scale = $3, model_number = $4, variant_tags = $5, updated_at = now()
+             WHERE manual_id = $1`,
+    values: (p) => [p.series, p.scale, p.modelNumber, p.variantTags],
+    preview: (r, p) => `${r.name_en || r.name_jp} -> ${JSON.stringify(p)}`
+  });
+}
+
+main()
+  .catch((e) => {
+    console.error('[parse:names] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -0,0 +1,212 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const TAIL_BYTES = 2048;
+
+// Cheap structural check for a PDF on disk: starts with `%PDF-` and has `%%EOF` near the end. A truncated
+// download keeps the header but loses the trailer. Returns a short reason, or null when the file looks complete.
+export async function checkPdfFile(filePath: string): Promise<string | null> {
+  let fh: fs.promises.FileHandle;
+  try {
+    fh = await fs.promises.open(filePath, 'r');
+  } catch {
+    return 'missing';
+  }
+  try {
+    const { size } = await fh.stat();
+    if (size === 0) return 'empty';
+    const head = Buffer.alloc(Math.min(5, size));
+    await fh.read(head, 0, head.length, 0);
+    if (head.toString('latin1') !== '%PDF-') return 'no %PDF header';
+    const tailLen = Math.min(TAIL_BYTES, size);
+    const tail = Buffer.alloc(tailLen);
+    await fh.read(tail, 0, tailLen, size - tailLen);
+    if (!tail.includes('%%EOF', 0, 'latin1')) return 'truncated (no %%EOF)';
+    return null;
+  } finally {
+    await fh.close();
+  }
+}
+
+export async function isCompletePdf(filePath: string): Promise<boolean> {
+  return (await checkPdfFile(filePath)) === null;
+}
+
+// MIME type from magic bytes; enough to tell PDFs from HTML error pages, images and archives
+export function sniffMime(head: Buffer): string {
+  if (head.length === 0) return 'inode/x-empty';
+  const ascii = head.subarray(0, 512).toString('latin1');
+  if (ascii.startsWith('%PDF-')) return 'application/pdf';
+  if (head[0] === 0x89 && ascii.startsWith('PNG', 1)) return 'image/png';
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return 'image/jpeg';
+  if (ascii.startsWith('GIF8')) return 'image/gif';
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii.startsWith('PK\u0003\u0004')) return 'application/zip';
+  const text = ascii.replace(/^\u00EF\u00BB\u00BF/, '').trimStart().toLowerCase(); // latin1 view of a UTF-8 BOM
+  if (text.startsWith('<!doctype html') || text.startsWith('<html') || text.startsWith('<head')) return 'text/html';
+  if (text.startsWith('<?xml')) return 'application/xml';
+  if (text.startsWith('{') || text.startsWith('[')) return 'application/json';
+  return 'application/octet-stream';
+}
+
+export type FileCheck = {
+  sha256: string;
+  size: number;
+  mime: string;
+  problem: string | null; // null when the file is a complete PDF
+};
+
+// Hashes the whole file (streamed) and runs the same checks as downloads. Throws if the file can't be read.
+export async function inspectPdfFile(filePath: string): Promise<FileCheck> {
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  let head = Buffer.alloc(0);
+  for await (const chunk of fs.createReadStream(filePath)) {
+    const buf = chunk as Buffer;
+    if (head.length < 512) head = Buffer.concat([head, buf.subarray(0, 512 - head.length)]);
+    hash.update(buf);
+    size += buf.length;
+  }
+  const mime = sniffMime(head);
+  const problem = mime === 'application/pdf' ? await checkPdfFile(filePath) : `not a PDF (${mime})`;
+  return { sha256: hash.digest('hex'), size, mime, problem };
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+}
+
+type PdfjsModule = typeof import('pdfjs-dist/legacy/build/pdf.mjs');
+export type PdfDocument = Awaited<ReturnType<PdfjsModule['getDocument']>['promise']>;
+
+// pdfjs is large; load it only in jobs that actually parse PDFs
+let pdfjs: Promise<PdfjsModule> | null = null;
+
+// Font data shipped with pdfjs: CMaps decode Japanese text in non-embedded CJK fonts, standard fonts draw
+// the base-14 faces (Helvetica etc.) that PDFs may reference without embedding
+const PDFJS_DIR = path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'));
+
+export async function openPdf(filePath: string): Promise<PdfDocument> {
+  pdfjs ??= import('pdfjs-dist/legacy/build/pdf.mjs');
+  const { getDocument } = await pdfjs;
+  const data = new Uint8Array(await fs.promises.readFile(filePath));
+  return getDocument({
+    data,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    cMapUrl: path.join(PDFJS_DIR, 'cmaps') + path.sep,
+    cMapPacked: true,
+    standardFontDataUrl: path.join(PDFJS_DIR, 'standard_fonts') + path.sep,
+    verbosity: 0
+  }).promise;
+}
+
+const CJK = /[぀-ヿ㐀-鿿＀-￯]/;
+
+// Text of one page. pdfjs returns positioned runs; Japanese runs are joined without spaces, others with one.
+export async function pageText(doc: PdfDocument, pageNumber: number): Promise<string> {
+  const page = await doc.getPage(pageNumber);
+  try {
+    const content = await page.getTextContent();
+    let out = '';
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      const s = item.str;
+      if (s) {
+        const prev = out.slice(-1);
+        if (out && prev !== '\n' && prev !== ' ' && !(CJK.test(prev) && CJK.test(s[0]))) out += ' ';
+        out += s;
+      }
+      if (item.hasEOL) out += '\n';
+    }
+    return out
+      .replace(/[ \t　]+/g, ' ')
+      .replace(/ *\n[\s]*/g, '\n')
+      .trim();
+  } finally {
+    page.cleanup();
+  }
+}
+
+export type PdfMetadata = {
+  pageCount: number;
+  widthPt: number | null; // first page, after /Rotate
+  heightPt: number | null;
+  title: string | null;
+  createdAt: Date | null;
+  textPages: number; // pages with any extractable text; 0 means scanned/image-only
+};
+
+// PDF date strings look like D:20240131093000+09'00'; everything after the year is optional
+export function parsePdfDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const m = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?\s*([Zz]|[+-]\d{2}'?\d{0,2}'?)?/);
+  if (!m) return null;
+  const [, y, mo = '01', d = '01', h = '00', mi = '00', s = '00', tz] = m;
+  let offset = 'Z';
+  if (tz && /^[+-]/.test(tz)) {
+    const digits = tz.replace(/'/g, '');
+    offset = `${digits.slice(0, 3)}:${(digits.slice(3) || '00').padEnd(2, '0')}`;
+  }
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function readPdfMetadata(doc: PdfDocument): Promise<PdfMetadata> {
+  const info = (await doc.getMetadata()).info as Record<string, unknown>;
+  const title = typeof info?.Title === 'string' && info.Title.trim() ? info.Title.trim() : null;
+  let widthPt: number | null = null;
+  let heightPt: number | null = null;
+  let textPages = 0;
+  for (let n = 1; n <= doc.numPages; n++) {
+    if (n === 1) {
+      const page = await doc.getPage(1);
+      const vp = page.getViewport({ scale: 1 });
+      widthPt = Math.round(vp.width * 10) / 10;
+      heightPt = Math.round(vp.height * 10) / 10;
+    }
+    if (await pageText(doc, n)) textPages++;
+  }
+  return { pageCount: doc.numPages, widthPt, heightPt, title, createdAt: parsePdfDate(info?.CreationDate), textPages };
+}
+
+const PAPER_SIZES: Array<[string, number, number]> = [
+  ['A3', 297, 420],
+  ['A4', 210, 297],
+  ['A5', 148, 210],
+  ['B4', 257, 364], // JIS B sizes, common for Japanese print
+  ['B5', 182, 257],
+  ['Letter', 216, 279]
+];
+
+// "A4", "B5 landscape" or "200×280 mm"
+export function describePageSize(widthPt: number, heightPt: number): string {
+  const w = (widthPt * 25.4) / 72;
+  const h = (heightPt * 25.4) / 72;
+  const [short, long] = w <= h ? [w, h] : [h, w];
+  const named = PAPER_SIZES.find(([, a, b]) => Math.abs(short - a) <= 3 && Math.abs(long - b) <= 3);
+  if (named) return w > h ? `${named[0]} landscape` : named[0];
+  return `${Math.round(w)}×${Math.round(h)} mm`;
+}
+
+// Rasterizes one page to PNG at the given pixel width, on a white background (PDF pages are transparent).
+// Uses the prebuilt @napi-rs/canvas that pdfjs itself draws with in Node: no GPU, browser or system libraries.
+export async function renderPagePng(doc: PdfDocument, pageNumber: number, widthPx: number): Promise<Buffer> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const page = await doc.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: widthPx / page.getViewport({ scale: 1 }).width });
+    const canvas = createCanvas(Math.round(viewport.width), Math.round(viewport.height));
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx as any, viewport }).promise;
+    return await canvas.encode('png');
+  } finally {
+    page.cleanup();
+  }
+}
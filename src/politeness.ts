@@ -0,0 +1,208 @@
+import { sleep } from './utils.js';
+
+// Per-host token bucket. One token every intervalMs, up to `burst` saved up. The interval adapts:
+// it doubles when the host pushes back (429/503) and drifts back to the base on success.
+class TokenBucket {
+  private tokens: number;
+  private last = Date.now();
+  private blockedUntil = 0;
+  intervalMs: number;
+
+  constructor(
+    public baseIntervalMs: number,
+    private readonly burst: number
+  ) {
+    this.intervalMs = baseIntervalMs;
+    this.tokens = burst;
+  }
+
+  async take() {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.blockedUntil) {
+        await sleep(this.blockedUntil - now);
+        continue;
+      }
+      if (this.intervalMs <= 0) return;
+      this.tokens = Math.min(this.burst, this.tokens + (now - this.last) / this.intervalMs);
+      this.last = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) * this.intervalMs));
+    }
+  }
+
+  slowDown(pauseMs: number) {
+    this.intervalMs = Math.min(MAX_INTERVAL_MS, Math.max(this.intervalMs * 2, this.baseIntervalMs, 1000));
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + pauseMs);
+  }
+
+  recover() {
+    if (this.intervalMs > this.baseIntervalMs) {
+      this.intervalMs = Math.max(this.baseIntervalMs, Math.floor(this.intervalMs * 0.9));
+    }
+  }
+}
+
+const MAX_INTERVAL_MS = 30_000;
+
+export class HostLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(
+    private readonly intervalMs: number,
+    private readonly burst = 1
+  ) {}
+
+  private bucket(host: string): TokenBucket {
+    let b = this.buckets.get(host);
+    if (!b) {
+      b = new TokenBucket(this.intervalMs, Math.max(1, this.burst));
+      this.buckets.set(host, b);
+    }
+    return b;
+  }
+
+  take(host: string) {
+    return this.bucket(host).take();
+  }
+
+  // robots.txt Crawl-delay raises the floor for that host, never lowers it
+  setMinInterval(host: string, ms: number) {
+    const b = this.bucket(host);
+    b.baseIntervalMs = Math.max(b.baseIntervalMs, ms);
+    b.intervalMs = Math.max(b.intervalMs, b.baseIntervalMs);
+  }
+
+  slowDown(host: string, pauseMs: number) {
+    this.bucket(host).slowDown(pauseMs);
+  }
+
+  recover(host: string) {
+    this.bucket(host).recover();
+  }
+}
+
+const RETRY_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+const RETRY_CODES = new Set(['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH', 'ERR_STREAM_PREMATURE_CLOSE']);
+
+export function isRetryable(err: any): boolean {
+  if (err?.retryable === true) return true;
+  // Read errors mid-body carry the (2xx) response too; only HTTP error statuses are judged by status
+  const status = err?.response?.statusCode;
+  if (typeof status === 'number' && status >= 400) return RETRY_STATUS.has(status);
+  return RETRY_CODES.has(err?.code);
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | string[] | undefined): number | null {
+  const v = Array.isArray(value) ? value[0] : value;
+  if (!v) return null;
+  if (/^\d+$/.test(v.trim())) return parseInt(v, 10) * 1000;
+  const at = Date.parse(v);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+// Exponential backoff with jitter: a random delay in [d/2, d] where d = base * 2^(attempt-1), capped at maxMs
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const d = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(d / 2 + Math.random() * (d / 2));
+}
+
+export type RetryPolicy = {
+  maxRetries: number;
+  baseMs: number;
+  maxMs: number;
+  maxRetryAfterMs: number; // give up instead of waiting longer than this
+};
+
+export function retryPolicyFromEnv(): RetryPolicy {
+  return {
+    maxRetries: Math.max(0, parseInt(process.env.MAX_RETRIES || '4', 10)),
+    baseMs: Math.max(1, parseInt(process.env.BACKOFF_BASE_MS || '1000', 10)),
+    maxMs: Math.max(1, parseInt(process.env.BACKOFF_MAX_MS || '60000', 10)),
+    maxRetryAfterMs: Math.max(0, parseInt(process.env.MAX_RETRY_AFTER_MS || '600000', 10))
+  };
+}
+
+export class RobotsDisallowedError extends Error {
+  constructor(public readonly url: string) {
+    super(`robots.txt disallows ${url}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+type RobotsRule = { allow: boolean; path: string };
+export type RobotsPolicy = { rules: RobotsRule[]; crawlDelayMs: number | null; sitemaps: string[] };
+
+// Minimal robots.txt parser: picks the group naming our user agent token, else `*`. Sitemap lines belong to no
+// group and are collected from the whole file.
+export function parseRobots(text: string, userAgent: string): RobotsPolicy {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  type Group = { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number | null };
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let cur: Group | null = null;
+  let lastWasAgent = false;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    if (key === 'user-agent') {
+      if (!cur || !lastWasAgent) {
+        cur = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(cur);
+      }
+      cur.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!cur) continue;
+    if (key === 'allow' || key === 'disallow') {
+      if (value) cur.rules.push({ allow: key === 'allow', path: value });
+    } else if (key === 'crawl-delay') {
+      const s = parseFloat(value);
+      if (Number.isFinite(s) && s >= 0) cur.crawlDelayMs = Math.round(s * 1000);
+    }
+  }
+  const pick =
+    groups.find((g) => token && g.agents.some((a) => a !== '*' && token.includes(a))) || groups.find((g) => g.agents.includes('*'));
+  return { rules: pick?.rules ?? [], crawlDelayMs: pick?.crawlDelayMs ?? null, sitemaps };
+}
+
+function ruleMatches(rulePath: string, target: string): boolean {
+  const anchored = rulePath.endsWith('$');
+  const pattern = rulePath
+    .replace(/\$$/, '')
+    .split('*')
+    .map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(target);
+}
+
+// Longest matching rule wins; Allow wins ties (RFC 9309)
+export function robotsAllows(policy: RobotsPolicy, url: string): boolean {
+  const u = new URL(url);
+  const target = u.pathname + u.search;
+  let best: RobotsRule | null = null;
+  for (const r of policy.rules) {
+    if (!ruleMatches(r.path, target)) continue;
+    if (!best || r.path.length > best.path.length || (r.path.length === best.path.length && r.allow)) best = r;
+  }
+  return best ? best.allow : true;
+}
+
+// On by default where enabled (Crawler, populate, populate:categories); RESPECT_ROBOTS=0 or --ignore-robots turns it off
+export function respectRobotsFromEnv(): boolean {
+  if (process.argv.includes('--ignore-robots')) return false;
+  return !(process.env.RESPECT_ROBOTS === '0' || process.env.RESPECT_ROBOTS === 'false');
+}
@@ -0,0 +1,78 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { joinFiles } from './paths.js';
+import { openPdf, renderPagePng } from './pdf.js';
+
+// PNG renders of manual pages, cached at FILES_ROOT/previews/<manual_id>/page-<n>-<width>.png.
+// A cached image is reused until the PDF next to it is newer (replaced by download:db --revalidate).
+export const PREVIEWS_SUBDIR = 'previews';
+
+export function previewWidthFromEnv(): number {
+  const w = parseInt(process.env.PREVIEW_WIDTH || '1000', 10);
+  return Math.min(2400, Math.max(100, Number.isFinite(w) ? w : 1000));
+}
+
+export class PageOutOfRangeError extends Error {
+  constructor(
+    public readonly page: number,
+    public readonly pageCount: number
+  ) {
+    super(`page ${page} is out of range (the PDF has ${pageCount} page${pageCount === 1 ? '' : 's'})`);
+    this.name = 'PageOutOfRangeError';
+  }
+}
+
+export function previewPath(manualId: number, page: number, width: number): string {
+  return joinFiles(PREVIEWS_SUBDIR, String(manualId), `page-${page}-${width}.png`);
+}
+
+async function mtimeMs(p: string): Promise<number | null> {
+  try {
+    return (await fs.promises.stat(p)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+// Cached image for a page, or null when it was never rendered or is older than the PDF
+export async function cachedPreview(pdfAbs: string, manualId: number, page: number, width: number): Promise<string | null> {
+  const out = previewPath(manualId, page, width);
+  const [pngTime, pdfTime] = await Promise.all([mtimeMs(out), mtimeMs(pdfAbs)]);
+  if (pngTime === null) return null;
+  return pdfTime === null || pngTime >= pdfTime ? out : null;
+}
+
+// Renders whichever of `pages` are not cached yet, opening the PDF at most once. Returns the PNG paths in order.
+// Throws PageOutOfRangeError for a page the PDF does not have.
+export async function renderPreviews(pdfAbs: string, manualId: number, pages: number[], width = previewWidthFromEnv()): Promise<string[]> {
+  const out: string[] = [];
+  const missing: number[] = [];
+  for (const p of pages) {
+    const hit = await cachedPreview(pdfAbs, manualId, p, width);
+    out.push(hit ?? previewPath(manualId, p, width));
+    if (!hit) missing.push(p);
+  }
+  if (!missing.length) return out;
+  const doc = await openPdf(pdfAbs);
+  try {
+    for (const p of missing) {
+      if (!Number.isInteger(p) || p < 1 || p > doc.numPages) throw new PageOutOfRangeError(p, doc.numPages);
+      const png = await renderPagePng(doc, p, width);
+      const target = previewPath(manualId, p, width);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // Unique per render: two requests for the same page may be rendering it at once
+      const tmp = `${target}.${process.pid}-${crypto.randomUUID()}.tmp`;
+      await fs.promises.writeFile(tmp, png);
+      await fs.promises.rename(tmp, target);
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return out;
+}
+
+export async function renderPreview(pdfAbs: string, manualId: number, page: number, width = previewWidthFromEnv()): Promise<string> {
+  const [p] = await renderPreviews(pdfAbs, manualId, [page], width);
+  return p;
+}
@@ -0,0 +1,59 @@
+// Release dates as the manual site gives them: Japanese dates that may stop at the month ("2024年11月") or year.
+// Everything here works on calendar strings in Asia/Tokyo; a JS Date only appears at the edges and is read
+// with an explicit time zone, never with local-time getters.
+export type ReleasePrecision = 'day' | 'month' | 'year';
+
+export type ReleaseDate = {
+  date: string | null; // YYYY-MM-DD, only when the day is known
+  sortDate: string | null; // YYYY-MM-DD, first day of the known period; orders month-only kits among dated ones
+  precision: ReleasePrecision | null;
+  raw: string;
+};
+
+export const RELEASE_TIME_ZONE = 'Asia/Tokyo';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function validDay(y: number, mo: number, d: number): boolean {
+  const dt = new Date(Date.UTC(y, mo - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === mo - 1 && dt.getUTCDate() === d;
+}
+
+export function parseReleaseDate(text: string | null | undefined): ReleaseDate {
+  const raw = (text || '').normalize('NFKC').replace(/\s+/g, ' ').trim();
+  const none: ReleaseDate = { date: null, sortDate: null, precision: null, raw };
+  // 2024年11月8日発売, 2024年11月発売, 2024年11月下旬, 2024年発売; then 2024-11-08, 2024/11/08, 2024/11
+  const m =
+    raw.match(/(\d{4})\s*年(?:\s*(\d{1,2})\s*月(?:\s*(\d{1,2})\s*日)?)?/) ?? raw.match(/(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?(?!\d)/);
+  if (!m) return none;
+
+  const y = parseInt(m[1], 10);
+  if (y < 1970 || y > 2100) return none;
+  const mo = m[2] ? parseInt(m[2], 10) : NaN;
+  const d = m[3] ? parseInt(m[3], 10) : NaN;
+
+  if (Number.isNaN(mo)) return { date: null, sortDate: `${y}-01-01`, precision: 'year', raw };
+  if (!(mo >= 1 && mo <= 12)) return none;
+  if (!Number.isNaN(d) && validDay(y, mo, d)) {
+    const iso = `${y}-${pad(mo)}-${pad(d)}`;
+    return { date: iso, sortDate: iso, precision: 'day', raw };
+  }
+  // No day, or one that does not exist (2月30日): keep what is certain
+  return { date: null, sortDate: `${y}-${pad(mo)}-01`, precision: 'month', raw };
+}
+
+// Calendar date of an instant in Tokyo, e.g. a Date from a driver that still returns DATE columns as Date
+export function tokyoDate(d: Date): string {
+  // sv-SE formats as YYYY-MM-DD
+  return d.toLocaleDateString('sv-SE', { timeZone: RELEASE_TIME_ZONE });
+}
+
+// "2024-11-08", "2024-11" or "2024" depending on what the site told us
+export function formatReleaseDate(value: Date | string | null | undefined, precision: ReleasePrecision | null | undefined): string | null {
+  if (!value) return null;
+  const iso = value instanceof Date ? tokyoDate(value) : value.trim().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) return null;
+  if (precision === 'year') return iso.slice(0, 4);
+  if (precision === 'month') return iso.slice(0, 7);
+  return iso;
+}
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+import './config.js';
+import { withClient, endPool } from './db.js';
+import { absFromRel } from './paths.js';
+import { JobRun } from './job_runs.js';
+import { PageOutOfRangeError, cachedPreview, previewWidthFromEnv, renderPreviews } from './previews.js';
+
+// Pre-renders covers (or PAGES=1,2,...) of every local PDF into FILES_ROOT/previews/ so the bot can reply
+// without rendering. Already-rendered pages are skipped unless the PDF changed since.
+const PAGES = (process.env.PAGES || '1')
+  .split(',')
+  .map((s) => parseInt(s.trim(), 10))
+  .filter((n) => Number.isInteger(n) && n >= 1)
+  .sort((a, b) => a - b);
+const LIMIT = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined;
+const IDS = process.env.IDS; // e.g. "123,456"
+const WIDTH = previewWidthFromEnv();
+
+type Row = { manual_id: number; pdf_local_path: string; pdf_page_count: number | null };
+
+async function selectRows(): Promise<Row[]> {
+  const clauses = ["pdf_local_path IS NOT NULL", "pdf_local_path <> ''", 'pdf_valid IS NOT FALSE'];
+  const params: any[] = [];
+  if (IDS) {
+    const ids = IDS.split(',').map((s) => parseInt(s.trim(), 10)).filter((n) => Number.isFinite(n));
+    if (ids.length) {
+      clauses.push(`manual_id = ANY($${params.length + 1})`);
+      params.push(ids);
+    }
+  }
+  const sql = `
+    SELECT manual_id, pdf_local_path, pdf_page_count
+    FROM bandai.manuals
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY manual_id ASC
+    ${LIMIT ? `LIMIT ${LIMIT}` : ''}
+  `;
+  const res = await withClient((c) => c.query(sql, params));
+  return res.rows as Row[];
+}
+
+async function main() {
+  if (!PAGES.length) throw new Error(`PAGES must list page numbers, e.g. PAGES=1,2 (got "${process.env.PAGES}")`);
+  const rows = await selectRows();
+  console.log(`[previews] manuals: ${rows.length}, pages: ${PAGES.join(',')}, width: ${WIDTH}px`);
+  const run = await JobRun.start('previews', { pages: PAGES, width: WIDTH, limit: LIMIT ?? null, ids: IDS ?? null });
+  try {
+    await renderAll(rows, run);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+// One PDF at a time; rendering is CPU-bound and pdfjs keeps the whole file in memory
+async function renderAll(rows: Row[], run: JobRun) {
+  for (const r of rows) {
+    const abs = absFromRel(r.pdf_local_path);
+    // extract:meta's page count, when known, saves opening short PDFs just to learn page 5 doesn't exist
+    const pages = r.pdf_page_count ? PAGES.filter((p) => p <= r.pdf_page_count!) : PAGES;
+    const todo: number[] = [];
+    try {
+      for (const p of pages) if (!(await cachedPreview(abs, r.manual_id, p, WIDTH))) todo.push(p);
+      if (todo.length) {
+        await renderPreviews(abs, r.manual_id, todo, WIDTH);
+        run.inserted += todo.length;
+      }
+    } catch (e) {
+      // Pages are rendered in ascending order, so everything below the missing one was written
+      if (e instanceof PageOutOfRangeError) run.inserted += todo.filter((p) => p < e.page).length;
+      else {
+        console.warn(`[previews] fail ${r.manual_id}: ${r.pdf_local_path}`);
+        run.fail(r.manual_id, e);
+      }
+    }
+    run.seen++;
+    if (run.seen % 50 === 0) {
+      console.log(`[previews] ${run.seen}/${rows.length}, rendered: ${run.inserted}`);
+      await run.flush();
+    }
+  }
+  console.log(`[previews] manuals: ${rows.length}, pages rendered: ${run.inserted}, failed: ${run.failed}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('[previews] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -1,13 +1,20 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import { config } from './config.js';
 import * as cheerio from 'cheerio';
 import path from 'node:path';
 import fs from 'node:fs';
 import pLimit from 'p-limit';
 import { HttpClient } from './http.js';
+import { httpCacheFromEnv } from './http_cache.js';
+import { respectRobotsFromEnv } from './politeness.js';
 import { sanitizeFilename } from './utils.js';
 import { withClient, endPool } from './db.js';
 import { filesRoot, joinFiles, relFromAbs } from './paths.js';
+import { JobRun } from './job_runs.js';
+import { checkPdfFile } from './pdf.js';
+import { parseKitName } from './kit_names.js';
+import { parseReleaseDate, ReleasePrecision } from './release_dates.js';
+import { report } from './cli_output.js';
 
 const DEFAULT_LIST_URL =
   'https://manual.bandai-hobby.net/?sort=new&categories%5B%5D=1&categories%5B%5D=2&categories%5B%5D=3&categories%5B%5D=4&categories%5B%5D=5&categories%5B%5D=6&categories%5B%5D=7&categories%5B%5D=8&categories%5B%5D=9&categories%5B%5D=10&categories%5B%5D=11&categories%5B%5D=12&categories%5B%5D=14&categories%5B%5D=34&categories%5B%5D=35&categories%5B%5D=67&categories%5B%5D=100&categories%5B%5D=133&categories%5B%5D=166';
@@ -29,16 +36,34 @@ const USER_LIST_URL = getCliUrl() || process.env.BASE_LIST_URL;
 const LIST_URL = USER_LIST_URL || DEFAULT_LIST_URL;
 const LIST_ORIGIN = new URL(LIST_URL).origin;
 const DOWNLOAD_FLAG = process.env.DOWNLOAD === '1' || process.env.DOWNLOAD === 'true';
+const DETAILS_FLAG = process.env.DETAILS === '1' || process.env.DETAILS === 'true' || process.argv.includes('--details');
 // Paths: store relative to FILES_ROOT (default ./downloads)
 const SUBDIR = process.env.SUBDIR || 'manuals';
 const OUT_DIR = joinFiles(SUBDIR);
 const DL_CONCURRENCY = parseInt(process.env.DL_CONCURRENCY || '3', 10);
+// Incremental by default: the list is sorted newest-first, so stop after this many pages with nothing new or changed
+const FULL_SCAN = process.argv.includes('--full') || process.env.FULL === '1' || process.env.FULL === 'true';
+const STOP_AFTER_KNOWN_PAGES = Math.max(1, parseInt(process.env.STOP_AFTER_KNOWN_PAGES || '2', 10));
+const RESUME = process.argv.includes('--resume') || process.env.RESUME === '1' || process.env.RESUME === 'true';
+// After a complete full scan, flag manuals that were not seen. Only safe for the default all-categories list
+// unless forced, and skipped when it would flag more than DELIST_MAX_RATIO of the catalogue (likely a site problem).
+const MARK_DELISTED = process.argv.includes('--mark-delisted') || process.env.MARK_DELISTED === '1';
+const DELIST_MAX_RATIO = parseFloat(process.env.DELIST_MAX_RATIO || '0.2');
+// Walk the listing and report which manuals are new without writing anything (no details, downloads or state)
+const DRY_RUN = process.argv.includes('--dry-run') || process.env.DRY_RUN === '1';
+// Parse a single listing page and print the items as JSON without touching the DB (pairs well with --replay)
+const INSPECT_PAGE = (() => {
+  const i = process.argv.indexOf('--inspect-page');
+  return i >= 0 ? Math.max(1, parseInt(process.argv[i + 1] || '1', 10) || 1) : null;
+})();
 
 const http = new HttpClient({
-  concurrency: parseInt(process.env.CONCURRENCY || '4', 10),
-  delayMs: parseInt(process.env.DELAY_MS || '250', 10),
-  userAgent: process.env.USER_AGENT || 'bandai-manuals-scraper/0.2',
-  timeoutMs: parseInt(process.env.TIMEOUT_MS || '30000', 10)
+  concurrency: config.http.concurrency,
+  delayMs: config.http.delayMs,
+  userAgent: config.http.userAgent,
+  timeoutMs: config.http.timeoutMs,
+  respectRobots: respectRobotsFromEnv(),
+  cache: httpCacheFromEnv()
 });
 
 function setPageParam(urlStr: string, page: number): string {
@@ -63,62 +88,6 @@ function textClean(s: string): string {
   return s.replace(/\s+/g, ' ').trim();
 }
 
-function inferGrade(nameEn?: string | null, nameJp?: string | null): string | null {
-  const src = (nameEn || nameJp || '').trim();
-  if (!src) return null;
-  const candidates = [
-    'PG',
-    'MG',
-    'RG',
-    'HG',
-    'EG',
-    'SD',
-    'FM',
-    'RE/100',
-    '30MM',
-    '30MS',
-    'ENTRY GRADE',
-    'HGUC',
-    'HGBF',
-    'HGCE',
-    'HGBC'
-  ];
-  const upper = src.toUpperCase();
-  for (const c of candidates) {
-    if (upper.startsWith(c)) return c;
-  }
-  // fallback: first token before space
-  const first = upper.split(' ')[0];
-  return first || null;
-}
-
-function parseReleaseDate(text: string): { date: string | null; raw: string } {
-  const raw = textClean(text);
-  // Try Japanese format: 2024年11月8日発売 (day optional)
-  let m = raw.match(/(\d{4})年\s*(\d{1,2})月(?:\s*(\d{1,2})日)?/);
-  if (!m) {
-    // Try ISO-like formats
-    m = raw.match(/(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
-  }
-  if (!m) return { date: null, raw };
-
-  const y = parseInt(m[1], 10);
-  const mo = parseInt(m[2], 10);
-  const d = m[3] ? parseInt(m[3], 10) : NaN;
-
-  if (!(mo >= 1 && mo <= 12)) return { date: null, raw };
-  if (!Number.isNaN(d)) {
-    // Validate actual calendar date
-    const dt = new Date(Date.UTC(y, mo - 1, d));
-    if (dt.getUTCFullYear() === y && dt.getUTCMonth() === mo - 1 && dt.getUTCDate() === d) {
-      const iso = `${y}-${String(mo).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
-      return { date: iso, raw };
-    }
-  }
-  // No valid or specific day, store null (raw text is preserved separately)
-  return { date: null, raw };
-}
-
 type Item = {
   manualId: number;
   detailPath: string;
@@ -127,7 +96,13 @@ type Item = {
   nameJp: string | null;
   nameEn: string | null;
   grade: string | null;
+  scale: string | null;
+  series: string | null;
+  modelNumber: string | null;
+  variantTags: string[];
   releaseDate: string | null; // YYYY-MM-DD or null
+  releaseSortDate: string | null; // YYYY-MM-DD, first day of a month/year-only release
+  releasePrecision: ReleasePrecision | null;
   releaseDateText: string | null;
   imageUrl: string | null;
 };
@@ -165,11 +140,11 @@ async function scrapePage(pageNum: number): Promise<{ items: Item[]; finalPagePa
           releaseDateText = textClean($(dt).next('dd').text() || '');
         }
       });
-    const { date: releaseDate } = parseReleaseDate(releaseDateText || '');
+    const release = parseReleaseDate(releaseDateText);
 
     const imageUrl = $(el).find('.bl_result_img img').attr('src');
     const absImageUrl = imageUrl ? absoluteToManualSite(imageUrl) : null;
-    const grade = inferGrade(nameEn, nameJp);
+    const kit = parseKitName(nameEn, nameJp);
 
     items.push({
       manualId,
@@ -178,8 +153,14 @@ async function scrapePage(pageNum: number): Promise<{ items: Item[]; finalPagePa
       pdfUrl,
       nameJp: nameJp || null,
       nameEn: nameEn || null,
-      grade,
-      releaseDate,
+      grade: kit.grade,
+      scale: kit.scale,
+      series: kit.series,
+      modelNumber: kit.modelNumber,
+      variantTags: kit.variantTags,
+      releaseDate: release.date,
+      releaseSortDate: release.sortDate,
+      releasePrecision: release.precision,
       releaseDateText: releaseDateText || null,
       imageUrl: absImageUrl
     });
@@ -188,23 +169,189 @@ async function scrapePage(pageNum: number): Promise<{ items: Item[]; finalPagePa
   return { items, finalPageParam: finalPage, zeroItems: items.length === 0 };
 }
 
-async function upsertItem(it: Item) {
+type Detail = {
+  series: string | null;
+  scale: string | null;
+  notes: string | null;
+  attributes: Array<{ label: string; value: string | null }>;
+  files: Array<{ url: string; label: string | null; kind: string }>;
+  // From links to a category listing (id known) and from a category label/value pair (name only)
+  categories: Array<{ id: number | null; name: string | null }>;
+};
+
+// Whole labels, compared without case and a trailing colon; a substring test caught unrelated labels
+const SERIES_LABELS = ['作品名', '作品', 'シリーズ', 'series', 'series title', 'work title'];
+const SCALE_LABELS = ['スケール', 'scale'];
+const NOTES_LABELS = ['備考', '注意事項', '注記', 'notes', 'note'];
+const CATEGORY_LABELS = ['カテゴリー', 'カテゴリ', '商品カテゴリー', 'category', 'categories'];
+
+function labelKey(label: string): string {
+  return label.replace(/[:：]\s*$/, '').trim().toLowerCase();
+}
+
+function pickAttr(attrs: Detail['attributes'], labels: string[]): string | null {
+  for (const a of attrs) {
+    if (labels.includes(labelKey(a.label)) && a.value) return a.value;
+  }
+  return null;
+}
+
+async function scrapeDetail(it: Item): Promise<Detail> {
+  const body = await http.html(it.detailUrl);
+  const $ = cheerio.load(body);
+
+  // The detail page lays out its metadata as dt/dd pairs and/or th/td rows; keep all of them verbatim
+  const attributes: Detail['attributes'] = [];
+  $('dl dt').each((_, dt) => {
+    const label = textClean($(dt).text());
+    if (!label) return;
+    const value = textClean($(dt).next('dd').text() || '');
+    attributes.push({ label, value: value || null });
+  });
+  $('table tr').each((_, tr) => {
+    const label = textClean($(tr).find('th').first().text() || '');
+    if (!label) return;
+    const value = textClean($(tr).find('td').first().text() || '');
+    attributes.push({ label, value: value || null });
+  });
+
+  // Extra PDFs (parts lists, errata, additional sheets) besides the main manual
+  const files: Detail['files'] = [];
+  const seen = new Set<string>([normalizeUrl(it.pdfUrl)]);
+  $('a[href]').each((_, a) => {
+    const href = $(a).attr('href') || '';
+    if (!/\.pdf(?:[?#]|$)/i.test(href)) return;
+    const url = normalizeUrl(absoluteToManualSite(href));
+    if (seen.has(url)) return;
+    seen.add(url);
+    const label = textClean($(a).text() || '') || null;
+    const kind = label && /パーツ|parts/i.test(label) ? 'parts' : 'pdf';
+    files.push({ url, label, kind });
+  });
+
+  // Categories: linked ones carry their id (`?categories[]=12`); a plain label/value pair only names them.
+  // Site-wide navigation links to every category, so only links in the page body count.
+  const categories: Detail['categories'] = [];
+  $('a[href*="categories"]').each((_, a) => {
+    if ($(a).closest('header, nav, footer, form').length) return;
+    const href = $(a).attr('href') || '';
+    const m = href.match(/categories(?:\[\]|%5B%5D)=(\d+)/i);
+    if (!m) return;
+    const id = parseInt(m[1], 10);
+    if (categories.some((c) => c.id === id)) return;
+    categories.push({ id, name: textClean($(a).text() || '') || null });
+  });
+  for (const a of attributes) {
+    if (!CATEGORY_LABELS.includes(labelKey(a.label)) || !a.value) continue;
+    for (const name of a.value.split(/[、,\/／]/).map((s) => s.trim()).filter(Boolean)) {
+      if (!categories.some((c) => c.name === name)) categories.push({ id: null, name });
+    }
+  }
+
+  return {
+    series: pickAttr(attributes, SERIES_LABELS),
+    scale: pickAttr(attributes, SCALE_LABELS),
+    notes: pickAttr(attributes, NOTES_LABELS),
+    attributes,
+    files,
+    categories
+  };
+}
+
+async function saveDetail(manualId: number, d: Detail) {
   await withClient(async (c) => {
-    await c.query(
-      `INSERT INTO bandai.manuals (
-        manual_id, detail_path, detail_url, pdf_url, name_jp, name_en, grade, release_date, release_date_text, image_url
-      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+    await c.query('BEGIN');
+    try {
+      await c.query(
+        // A blank on the detail page keeps what populate parsed from the name
+        `UPDATE bandai.manuals SET series = COALESCE($2, series), scale = COALESCE($3, scale), notes = $4,
+           detail_scraped_at = now(), updated_at = now()
+         WHERE manual_id = $1`,
+        [manualId, d.series, d.scale, d.notes]
+      );
+      await c.query('DELETE FROM bandai.manual_attributes WHERE manual_id = $1', [manualId]);
+      for (const [i, a] of d.attributes.entries()) {
+        await c.query('INSERT INTO bandai.manual_attributes (manual_id, position, label, value) VALUES ($1,$2,$3,$4)', [
+          manualId,
+          i,
+          a.label,
+          a.value
+        ]);
+      }
+      // Files no longer linked from the page go; the rest are upserted
+      await c.query('DELETE FROM bandai.manual_files WHERE manual_id = $1 AND NOT (url = ANY($2))', [
+        manualId,
+        d.files.map((f) => f.url)
+      ]);
+      for (const f of d.files) {
+        await c.query(
+          `INSERT INTO bandai.manual_files (manual_id, url, label, kind) VALUES ($1,$2,$3,$4)
+           ON CONFLICT (manual_id, url) DO UPDATE SET label = EXCLUDED.label, kind = EXCLUDED.kind`,
+          [manualId, f.url, f.label, f.kind]
+        );
+      }
+      // Only adds links to categories already in bandai.categories (populate:categories), matched by id or name;
+      // pruning stays with the category crawl, which sees each category's full listing
+      if (d.categories.length) {
+        await c.query(
+          `INSERT INTO bandai.manual_categories (manual_id, category_id)
+           SELECT $1, cat.category_id FROM bandai.categories cat
+           WHERE cat.category_id = ANY($2) OR lower(cat.name) = ANY($3)
+           ON CONFLICT DO NOTHING`,
+          [
+            manualId,
+            d.categories.flatMap((x) => (x.id !== null ? [x.id] : [])),
+            d.categories.flatMap((x) => (x.name ? [x.name.toLowerCase()] : []))
+          ]
+        );
+      }
+      await c.query('COMMIT');
+    } catch (err) {
+      await c.query('ROLLBACK');
+      throw err;
+    }
+  });
+}
+
+type UpsertResult = 'inserted' | 'updated' | 'unchanged';
+
+// Only touches the row when a listing field actually differs, so unchanged manuals keep their updated_at.
+// series/scale parsed from the name never replace values the detail page provided. Names outside the grade
+// registry infer no grade; the stored one is kept rather than cleared.
+async function upsertItem(it: Item): Promise<UpsertResult> {
+  const grade = 'COALESCE(EXCLUDED.grade, m.grade)';
+  const nameSeries = 'CASE WHEN m.detail_scraped_at IS NOT NULL AND m.series IS NOT NULL THEN m.series ELSE EXCLUDED.series END';
+  const nameScale = 'CASE WHEN m.detail_scraped_at IS NOT NULL AND m.scale IS NOT NULL THEN m.scale ELSE EXCLUDED.scale END';
+  const res = await withClient((c) =>
+    c.query(
+      `INSERT INTO bandai.manuals AS m (
+        manual_id, detail_path, detail_url, pdf_url, name_jp, name_en, grade, release_date, release_date_text, image_url,
+        series, scale, model_number, variant_tags, release_sort_date, release_precision
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
       ON CONFLICT (manual_id) DO UPDATE SET
         detail_path = EXCLUDED.detail_path,
         detail_url = EXCLUDED.detail_url,
         pdf_url = EXCLUDED.pdf_url,
         name_jp = EXCLUDED.name_jp,
         name_en = EXCLUDED.name_en,
-        grade = EXCLUDED.grade,
+        grade = ${grade},
         release_date = EXCLUDED.release_date,
         release_date_text = EXCLUDED.release_date_text,
         image_url = EXCLUDED.image_url,
-        updated_at = now();`,
+        series = ${nameSeries},
+        scale = ${nameScale},
+        model_number = EXCLUDED.model_number,
+        variant_tags = EXCLUDED.variant_tags,
+        release_sort_date = EXCLUDED.release_sort_date,
+        release_precision = EXCLUDED.release_precision,
+        updated_at = now()
+      WHERE (m.detail_path, m.detail_url, m.pdf_url, m.name_jp, m.name_en, m.grade, m.release_date, m.release_date_text, m.image_url,
+             m.series, m.scale, m.model_number, m.variant_tags, m.release_sort_date, m.release_precision)
+        IS DISTINCT FROM
+        (EXCLUDED.detail_path, EXCLUDED.detail_url, EXCLUDED.pdf_url, EXCLUDED.name_jp, EXCLUDED.name_en, ${grade},
+         EXCLUDED.release_date, EXCLUDED.release_date_text, EXCLUDED.image_url,
+         ${nameSeries}, ${nameScale}, EXCLUDED.model_number, EXCLUDED.variant_tags, EXCLUDED.release_sort_date, EXCLUDED.release_precision)
+      RETURNING (xmax = 0) AS inserted;`,
       [
         it.manualId,
         it.detailPath,
@@ -215,12 +362,122 @@ async function upsertItem(it: Item) {
         it.grade,
         it.releaseDate,
         it.releaseDateText,
-        it.imageUrl
+        it.imageUrl,
+        it.series,
+        it.scale,
+        it.modelNumber,
+        it.variantTags,
+        it.releaseSortDate,
+        it.releasePrecision
       ]
+    )
+  );
+  if (!res.rowCount) return 'unchanged';
+  return res.rows[0].inserted ? 'inserted' : 'updated';
+}
+
+async function markSeen(manualIds: number[]) {
+  await withClient((c) =>
+    c.query(
+      'UPDATE bandai.manuals SET last_seen_at = now(), delisted_at = NULL, pdf_removed_at = NULL WHERE manual_id = ANY($1)',
+      [manualIds]
+    )
+  );
+}
+
+async function markDelisted(cutoff: Date): Promise<number> {
+  return withClient(async (c) => {
+    const active = await c.query('SELECT COUNT(*)::int AS n FROM bandai.manuals WHERE delisted_at IS NULL');
+    const missing = await c.query(
+      'SELECT COUNT(*)::int AS n FROM bandai.manuals WHERE delisted_at IS NULL AND (last_seen_at IS NULL OR last_seen_at < $1)',
+      [cutoff]
+    );
+    const nActive = active.rows[0].n as number;
+    const nMissing = missing.rows[0].n as number;
+    if (nMissing === 0) return 0;
+    if (!MARK_DELISTED && nActive > 0 && nMissing / nActive > DELIST_MAX_RATIO) {
+      console.warn(
+        `[delist] ${nMissing}/${nActive} manuals were not seen; above DELIST_MAX_RATIO=${DELIST_MAX_RATIO}, not marking (use --mark-delisted to force)`
+      );
+      return 0;
+    }
+    const res = await c.query(
+      `UPDATE bandai.manuals SET delisted_at = now()
+       WHERE delisted_at IS NULL AND (last_seen_at IS NULL OR last_seen_at < $1)`,
+      [cutoff]
     );
+    return res.rowCount ?? 0;
   });
 }
 
+// Delisted manuals whose official PDF now answers 404/410 get pdf_removed_at; our copy may be the only one left
+async function checkRemovedPdfs(): Promise<number> {
+  const res = await withClient((c) =>
+    c.query('SELECT manual_id, pdf_url FROM bandai.manuals WHERE delisted_at IS NOT NULL AND pdf_removed_at IS NULL AND pdf_url IS NOT NULL')
+  );
+  let removed = 0;
+  for (const r of res.rows as Array<{ manual_id: number; pdf_url: string }>) {
+    let status: number | undefined;
+    try {
+      status = (await http.head(r.pdf_url)).statusCode;
+    } catch (e: any) {
+      status = e?.response?.statusCode;
+    }
+    if (status === 404 || status === 410) {
+      await withClient((c) => c.query('UPDATE bandai.manuals SET pdf_removed_at = now() WHERE manual_id = $1', [r.manual_id]));
+      removed++;
+    }
+  }
+  return removed;
+}
+
+async function needsDetail(manualIds: number[]): Promise<Set<number>> {
+  const res = await withClient((c) =>
+    c.query('SELECT manual_id FROM bandai.manuals WHERE manual_id = ANY($1) AND detail_scraped_at IS NULL', [manualIds])
+  );
+  return new Set(res.rows.map((r) => r.manual_id as number));
+}
+
+type PopulateState = {
+  list_url: string;
+  last_page: number;
+  full_scan: boolean;
+  started_at: Date;
+  finished_at: Date | null;
+};
+
+async function loadState(listUrl: string): Promise<PopulateState | null> {
+  const res = await withClient((c) =>
+    c.query('SELECT list_url, last_page, full_scan, started_at, finished_at FROM bandai.populate_state WHERE list_url = $1', [listUrl])
+  );
+  return res.rowCount ? (res.rows[0] as PopulateState) : null;
+}
+
+async function startState(listUrl: string, fullScan: boolean) {
+  await withClient((c) =>
+    c.query(
+      `INSERT INTO bandai.populate_state (list_url, last_page, full_scan, started_at, updated_at, finished_at)
+       VALUES ($1, 0, $2, now(), now(), NULL)
+       ON CONFLICT (list_url) DO UPDATE SET
+         last_page = 0, full_scan = EXCLUDED.full_scan, started_at = now(), updated_at = now(), finished_at = NULL`,
+      [listUrl, fullScan]
+    )
+  );
+}
+
+// Called only after every write for the page has completed, so a crash re-processes at most one page
+async function checkpoint(listUrl: string, page: number) {
+  await withClient((c) =>
+    c.query('UPDATE bandai.populate_state SET last_page = $2, updated_at = now() WHERE list_url = $1', [listUrl, page])
+  );
+}
+
+async function finishState(listUrl: string) {
+  await withClient((c) =>
+    c.query('UPDATE bandai.populate_state SET finished_at = now(), updated_at = now() WHERE list_url = $1', [listUrl])
+  );
+}
+
 async function setLocalPath(manualId: number, localPath: string) {
   await withClient((c) =>
     c.query('UPDATE bandai.manuals SET pdf_local_path = $2, updated_at = now() WHERE manual_id = $1', [manualId, localPath])
@@ -231,7 +488,9 @@ async function downloadIfNeeded(manualId: number, pdfUrl: string, baseName: stri
   const fname = `${sanitizeFilename(baseName)}.pdf`;
   const outPath = path.join(OUT_DIR, fname);
   await fs.promises.mkdir(path.dirname(outPath), { recursive: true });
-  if (fs.existsSync(outPath)) return outPath; // skip
+  const problem = await checkPdfFile(outPath);
+  if (!problem) return outPath; // skip
+  if (problem !== 'missing') console.warn(`[download] ${manualId}: existing file is ${problem}; downloading again`);
   try {
     const saved = await http.download(pdfUrl, path.dirname(outPath), path.basename(outPath));
     return saved;
@@ -242,9 +501,66 @@ async function downloadIfNeeded(manualId: number, pdfUrl: string, baseName: stri
 }
 
 async function main() {
-  console.log(`[populate] list: ${normalizeUrl(LIST_URL)}`);
+  const listUrl = normalizeUrl(LIST_URL);
+  console.log(`[populate] list: ${listUrl}`);
+  if (INSPECT_PAGE !== null) {
+    const res = await scrapePage(INSPECT_PAGE);
+    const details = DETAILS_FLAG ? await Promise.all(res.items.map((it) => scrapeDetail(it))) : undefined;
+    console.log(JSON.stringify({ page: INSPECT_PAGE, ...res, details }, null, 2));
+    return;
+  }
+  if (DRY_RUN) {
+    await preview(FULL_SCAN);
+    return;
+  }
+
   let page = 1;
+  let fullScan = FULL_SCAN;
+  const prev = await loadState(listUrl);
+  const resuming = RESUME && prev !== null && !prev.finished_at;
+  if (prev && !prev.finished_at) {
+    if (resuming) {
+      page = prev.last_page + 1;
+      fullScan = fullScan || prev.full_scan;
+      console.log(`[populate] resuming run started ${prev.started_at.toISOString()} at page ${page}`);
+    } else {
+      console.log(`[populate] previous run stopped after page ${prev.last_page}; pass --resume to continue it`);
+    }
+  }
+  // A resumed run keeps its started_at (the delisting cutoff), even when it stopped before finishing page 1
+  if (!resuming) await startState(listUrl, fullScan);
+
+  console.log(`[populate] mode: ${fullScan ? 'full' : `incremental (stop after ${STOP_AFTER_KNOWN_PAGES} known pages)`}`);
+  const run = await JobRun.start('populate', {
+    listUrl,
+    fullScan,
+    startPage: page,
+    details: DETAILS_FLAG,
+    download: DOWNLOAD_FLAG
+  });
+  try {
+    const complete = await populate(run, listUrl, page, fullScan);
+    if (complete && fullScan && (!USER_LIST_URL || MARK_DELISTED)) {
+      // started_at survives --resume, so pages seen before a crash still count as seen
+      const state = await loadState(listUrl);
+      const delisted = await markDelisted(state!.started_at);
+      const removed = await checkRemovedPdfs();
+      console.log(`[delist] newly delisted: ${delisted}, official PDF removed: ${removed}`);
+    }
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+// Resolves true when the listing was walked to its end (not stopped early by the incremental check)
+async function populate(run: JobRun, listUrl: string, startPage: number, fullScan: boolean): Promise<boolean> {
+  let page = startPage;
   let total = 0;
+  let unchanged = 0;
+  let knownPages = 0;
+  let complete = true;
   const dlLimit = pLimit(DL_CONCURRENCY);
 
   while (true) {
@@ -263,8 +579,32 @@ async function main() {
     }
 
     // DB upserts
+    const changed: Item[] = [];
     for (const it of items) {
-      await upsertItem(it);
+      const result = await upsertItem(it);
+      run.seen++;
+      if (result === 'inserted') run.inserted++;
+      else if (result === 'updated') run.updated++;
+      else unchanged++;
+      if (result !== 'unchanged') changed.push(it);
+    }
+    await markSeen(items.map((it) => it.manualId));
+
+    // Optional detail pages (series, scale, notes, extra files); incremental runs only visit new/changed manuals
+    // and those whose details were never scraped (e.g. after a crash between upsert and detail pass)
+    if (DETAILS_FLAG) {
+      const missing = fullScan ? null : await needsDetail(items.map((it) => it.manualId));
+      const targets = fullScan ? items : items.filter((it) => changed.includes(it) || missing!.has(it.manualId));
+      await Promise.all(
+        targets.map(async (it) => {
+          try {
+            await saveDetail(it.manualId, await scrapeDetail(it));
+          } catch (e: any) {
+            console.warn(`[details] failed ${it.manualId}: ${it.detailUrl}: ${e?.message || e}`);
+            run.fail(it.manualId, e);
+          }
+        })
+      );
     }
 
     // Optional downloads (in limited parallel)
@@ -274,16 +614,58 @@ async function main() {
       const base = `${it.manualId}-${sanitizeFilename(it.nameEn || it.nameJp || 'manual')}`;
       const saved = await downloadIfNeeded(it.manualId, it.pdfUrl, base);
       if (saved) await setLocalPath(it.manualId, relFromAbs(saved));
+      else run.fail(it.manualId, `download failed: ${it.pdfUrl}`);
         })
       );
       await Promise.all(tasks);
     }
 
     total += items.length;
+    await checkpoint(listUrl, page);
+    await run.flush();
+
+    knownPages = changed.length === 0 ? knownPages + 1 : 0;
+    if (!fullScan && knownPages >= STOP_AFTER_KNOWN_PAGES) {
+      console.log(`[populate] ${knownPages} consecutive pages without changes; stopping at page ${page} (use --full to scan everything)`);
+      complete = false;
+      break;
+    }
+
     page += 1;
   }
 
+  await finishState(listUrl);
   console.log(`[populate] total items processed: ${total}`);
+  console.log(`[populate] inserted: ${run.inserted}, updated: ${run.updated}, unchanged: ${unchanged}, failed: ${run.failed}`);
+  return complete;
+}
+
+// Dry run of populate(): the same walk and stop rules, except that a page counts as known when none of its
+// manuals is new. Changes to known manuals are only detected by a real run, which compares every field.
+async function preview(fullScan: boolean) {
+  let page = 1;
+  let pages = 0;
+  let knownPages = 0;
+  let total = 0;
+  const added: number[] = [];
+  while (true) {
+    const { items, finalPageParam, zeroItems } = await scrapePage(page);
+    if (zeroItems || (finalPageParam !== null && finalPageParam !== page)) break;
+    const ids = items.map((it) => it.manualId);
+    const res = await withClient((c) => c.query('SELECT manual_id FROM bandai.manuals WHERE manual_id = ANY($1)', [ids]));
+    const known = new Set(res.rows.map((r) => r.manual_id as number));
+    const fresh = items.filter((it) => !known.has(it.manualId));
+    console.log(`[populate] page ${page} -> items: ${items.length}, new: ${fresh.length}`);
+    for (const it of fresh) console.log(`  + ${it.manualId} ${it.nameEn || it.nameJp || ''}`);
+    added.push(...fresh.map((it) => it.manualId));
+    total += items.length;
+    pages++;
+    knownPages = fresh.length === 0 ? knownPages + 1 : 0;
+    if (!fullScan && knownPages >= STOP_AFTER_KNOWN_PAGES) break;
+    page += 1;
+  }
+  console.log(`[populate] dry run: ${total} items on ${pages} pages, ${added.length} new`);
+  report({ dryRun: true, pages, seen: total, new: added.length, ids: added });
 }
 
 main()
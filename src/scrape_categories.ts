@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+import { config } from './config.js';
+import * as cheerio from 'cheerio';
+import { HttpClient } from './http.js';
+import { httpCacheFromEnv } from './http_cache.js';
+import { respectRobotsFromEnv } from './politeness.js';
+import { withClient, endPool } from './db.js';
+import { JobRun } from './job_runs.js';
+
+const BASE_URL = process.env.BASE_URL || 'https://manual.bandai-hobby.net/';
+const ORIGIN = new URL(BASE_URL).origin;
+// Optional subset, e.g. "1,2,34"; default is every category offered by the filter
+const ONLY = (process.env.CATEGORY_IDS || '')
+  .split(',')
+  .map((s) => parseInt(s.trim(), 10))
+  .filter((n) => Number.isFinite(n));
+const MAX_PAGES = parseInt(process.env.MAX_PAGES || '500', 10);
+
+const http = new HttpClient({
+  concurrency: config.http.concurrency,
+  delayMs: config.http.delayMs,
+  userAgent: config.http.userAgent,
+  timeoutMs: config.http.timeoutMs,
+  respectRobots: respectRobotsFromEnv(),
+  cache: httpCacheFromEnv()
+});
+
+type Category = { categoryId: number; name: string; position: number };
+
+function textClean(s: string): string {
+  return s.replace(/\s+/g, ' ').trim();
+}
+
+function categoryListUrl(categoryId: number, page: number): string {
+  const u = new URL('/', ORIGIN);
+  u.searchParams.set('sort', 'new');
+  u.searchParams.append('categories[]', String(categoryId));
+  u.searchParams.set('page', String(page));
+  return u.toString();
+}
+
+// The listing's filter form renders one `categories[]` checkbox per category, labelled with its name
+async function scrapeCategories(): Promise<Category[]> {
+  const body = await http.html(BASE_URL);
+  const $ = cheerio.load(body);
+  const out = new Map<number, Category>();
+  $('input[name="categories[]"]').each((i, el) => {
+    const id = parseInt($(el).attr('value') || '', 10);
+    if (!Number.isFinite(id) || out.has(id)) return;
+    const elId = $(el).attr('id');
+    let name = elId ? textClean($(`label[for="${elId}"]`).first().text() || '') : '';
+    if (!name) name = textClean($(el).closest('label').text() || '');
+    if (!name) name = textClean($(el).parent().text() || '');
+    out.set(id, { categoryId: id, name: name || `Category ${id}`, position: i });
+  });
+  return Array.from(out.values());
+}
+
+async function upsertCategories(cats: Category[]) {
+  await withClient(async (c) => {
+    for (const cat of cats) {
+      await c.query(
+        `INSERT INTO bandai.categories (category_id, name, position) VALUES ($1,$2,$3)
+         ON CONFLICT (category_id) DO UPDATE SET name = EXCLUDED.name, position = EXCLUDED.position, updated_at = now()
+         WHERE (bandai.categories.name, bandai.categories.position) IS DISTINCT FROM (EXCLUDED.name, EXCLUDED.position)`,
+        [cat.categoryId, cat.name, cat.position]
+      );
+    }
+  });
+}
+
+// Walks the category's listing with the same stop rules as populate (no items, or redirected page param).
+// `complete` is false when the walk hit MAX_PAGES, so the id list may be partial.
+async function crawlCategory(categoryId: number): Promise<{ ids: number[]; complete: boolean }> {
+  const ids = new Set<number>();
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const { body, url: finalUrl } = await http.htmlDetailed(categoryListUrl(categoryId, page));
+    const finalPage = new URL(finalUrl).searchParams.get('page');
+    if (finalPage !== null && parseInt(finalPage, 10) !== page) break;
+    const $ = cheerio.load(body);
+    let found = 0;
+    $('div.bl_result_item a[href*="/menus/detail/"]').each((_, a) => {
+      const m = ($(a).attr('href') || '').match(/(\d+)(?:[^\d]|$)/);
+      if (!m) return;
+      ids.add(parseInt(m[1], 10));
+      found++;
+    });
+    if (found === 0) return { ids: Array.from(ids), complete: true };
+  }
+  return { ids: Array.from(ids), complete: false };
+}
+
+// Replaces the category's memberships with what the listing shows now; unknown manuals are skipped (run populate first).
+// Without `prune` links are only added, so an empty or truncated crawl can't shrink the category.
+async function saveMembership(
+  categoryId: number,
+  manualIds: number[],
+  prune: boolean
+): Promise<{ linked: number; added: number }> {
+  return withClient(async (c) => {
+    await c.query('BEGIN');
+    try {
+      if (prune) {
+        await c.query('DELETE FROM bandai.manual_categories WHERE category_id = $1 AND NOT (manual_id = ANY($2))', [
+          categoryId,
+          manualIds
+        ]);
+      }
+      const res = await c.query(
+        `INSERT INTO bandai.manual_categories (manual_id, category_id)
+         SELECT m.manual_id, $1 FROM bandai.manuals m WHERE m.manual_id = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [categoryId, manualIds]
+      );
+      const linked = await c.query('SELECT COUNT(*)::int AS n FROM bandai.manual_categories WHERE category_id = $1', [categoryId]);
+      await c.query('COMMIT');
+      return { linked: linked.rows[0].n as number, added: res.rowCount ?? 0 };
+    } catch (err) {
+      await c.query('ROLLBACK');
+      throw err;
+    }
+  });
+}
+
+async function main() {
+  const all = await scrapeCategories();
+  if (all.length === 0) {
+    console.log('[categories] no category filter found on the listing page; nothing to do');
+    return;
+  }
+  await upsertCategories(all);
+  console.log(`[categories] categories: ${all.map((c) => `${c.categoryId}=${c.name}`).join(', ')}`);
+
+  const targets = ONLY.length ? all.filter((c) => ONLY.includes(c.categoryId)) : all;
+  const run = await JobRun.start('categories', { baseUrl: BASE_URL, categoryIds: targets.map((c) => c.categoryId) });
+  try {
+    for (const cat of targets) {
+      try {
+        const { ids, complete } = await crawlCategory(cat.categoryId);
+        const prune = complete && ids.length > 0;
+        if (!prune) {
+          console.warn(
+            `[categories] ${cat.categoryId} ${cat.name}: ${ids.length === 0 ? 'no items found' : `stopped at MAX_PAGES=${MAX_PAGES}`}; keeping existing links`
+          );
+        }
+        const { linked, added } = await saveMembership(cat.categoryId, ids, prune);
+        run.seen += ids.length;
+        run.inserted += added;
+        console.log(`[categories] ${cat.categoryId} ${cat.name}: listed ${ids.length}, linked ${linked} (+${added})`);
+      } catch (e) {
+        console.warn(`[categories] failed ${cat.categoryId} ${cat.name}`, e);
+        run.fail(cat.categoryId, e);
+      }
+      await run.flush();
+    }
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[categories] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+import './config.js';
+import { endPool } from './db.js';
+import { searchManuals } from './discord/query.js';
+import { formatReleaseDate } from './release_dates.js';
+import { report } from './cli_output.js';
+
+// npm run search -- "aerial" [--grade HG] [--category <name|id>] [--limit N]
+// Kit names, the same matching as the bots; `npm run search:text` searches inside the manuals instead.
+function argValue(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const grade = argValue('--grade') || process.env.GRADE || undefined;
+  const category = argValue('--category') || process.env.CATEGORY || undefined;
+  const limit = parseInt(argValue('--limit') || process.env.LIMIT || '20', 10);
+  const skip = new Set(['--grade', '--category', '--limit'].flatMap((f) => (process.argv.includes(f) ? [f, argValue(f)] : [])));
+  const q = process.argv
+    .slice(2)
+    .filter((a) => !skip.has(a))
+    .join(' ')
+    .trim();
+  if (!q && !grade) {
+    console.error('usage: npm run search -- "<words>" [--grade <code>] [--category <name|id>] [--limit N]');
+    process.exit(2);
+  }
+  const rows = await searchManuals(q, grade, limit, category);
+  report({ query: q, grade: grade ?? null, manuals: rows });
+  if (!rows.length) {
+    console.log(`[search] no manuals match "${q}"`);
+    return;
+  }
+  for (const m of rows) {
+    const release = formatReleaseDate(m.release_sort_date ?? m.release_date, m.release_precision);
+    console.log([m.manual_id, m.grade ?? '', m.name_en || m.name_jp || '', release ?? ''].join('\t'));
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[search] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+import './config.js';
+import { endPool } from './db.js';
+import { searchManualPages } from './discord/query.js';
+import { report } from './cli_output.js';
+
+// npm run search:text -- "waist joint" [--category <name|id>] [--limit N]
+function argValue(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const category = argValue('--category') || process.env.CATEGORY || undefined;
+  const limit = parseInt(argValue('--limit') || process.env.LIMIT || '20', 10);
+  const skip = new Set(['--category', '--limit'].flatMap((f) => (process.argv.includes(f) ? [f, argValue(f)] : [])));
+  const q = process.argv
+    .slice(2)
+    .filter((a) => !skip.has(a))
+    .join(' ')
+    .trim();
+  if (!q) {
+    console.error('usage: npm run search:text -- "<words>" [--category <name|id>] [--limit N]');
+    process.exit(2);
+  }
+  const hits = await searchManualPages(q, limit, category);
+  report({ query: q, hits });
+  if (!hits.length) {
+    console.log(`[search] no pages match "${q}"`);
+    return;
+  }
+  // Best-ranked manual first, its matching pages in page order
+  const byManual = new Map<number, typeof hits>();
+  for (const h of hits) byManual.set(h.manual_id, [...(byManual.get(h.manual_id) || []), h]);
+  for (const [id, pages] of byManual) {
+    const m = pages[0];
+    console.log(`\n${id}\t${m.grade ? m.grade + ' ' : ''}${m.name_en || m.name_jp || ''}`);
+    for (const p of pages.sort((a, b) => a.page - b.page)) {
+      console.log(`  p.${p.page}\t${p.snippet.replace(/\s+/g, ' ').trim()}`);
+    }
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[search] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());
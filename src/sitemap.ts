@@ -0,0 +1,57 @@
+import * as cheerio from 'cheerio';
+import { HttpClient } from './http.js';
+import { ensureAbsoluteUrl } from './utils.js';
+
+// Sitemap indexes may nest; this caps how many sitemap files one discovery fetches
+const MAX_SITEMAPS = 200;
+
+export type SitemapDiscovery = {
+  sitemaps: string[]; // sitemap files read, in fetch order
+  urls: string[]; // page URLs they list (<urlset><url><loc>), unique, in document order
+};
+
+// Reads one sitemap document: a <urlset> yields page URLs, a <sitemapindex> yields further sitemaps
+export function parseSitemap(xml: string, baseUrl: string): { urls: string[]; sitemaps: string[] } {
+  const $ = cheerio.load(xml, { xml: true });
+  const locs = (sel: string) =>
+    $(sel)
+      .map((_, el) => ensureAbsoluteUrl(baseUrl, $(el).text().trim()))
+      .get()
+      .filter((u): u is string => !!u);
+  return { urls: locs('urlset > url > loc'), sitemaps: locs('sitemapindex > sitemap > loc') };
+}
+
+// Sitemaps named in robots.txt, else /sitemap.xml at the base URL's origin, following sitemap indexes.
+// A missing sitemap is not an error: discovery returns nothing and the crawl relies on links alone.
+// Gzipped sitemap files (*.xml.gz) are skipped; gzip transfer encoding is handled by the HTTP client.
+export async function discoverSitemapUrls(http: HttpClient, baseUrl: string): Promise<SitemapDiscovery> {
+  const fromRobots = await http.robotsSitemaps(baseUrl).catch(() => [] as string[]);
+  const pending = fromRobots.length ? [...fromRobots] : [new URL('/sitemap.xml', baseUrl).toString()];
+  const fetched = new Set<string>();
+  const urls = new Set<string>();
+
+  while (pending.length && fetched.size < MAX_SITEMAPS) {
+    const url = pending.shift()!;
+    if (fetched.has(url)) continue;
+    if (/\.gz$/i.test(new URL(url).pathname)) {
+      console.warn(`[sitemap] skipping compressed sitemap ${url}`);
+      continue;
+    }
+    fetched.add(url);
+    let body: string;
+    try {
+      const res = await http.htmlDetailed(url);
+      body = res.body;
+    } catch (err: any) {
+      const status = err?.response?.statusCode;
+      if (status !== 404 && status !== 410) console.warn(`[sitemap] ${url} unavailable: ${status ?? err?.message ?? err}`);
+      continue;
+    }
+    const doc = parseSitemap(body, url);
+    for (const u of doc.urls) urls.add(u);
+    pending.push(...doc.sitemaps);
+  }
+  const unread = new Set(pending.filter((u) => !fetched.has(u))).size;
+  if (unread) console.warn(`[sitemap] stopped after ${MAX_SITEMAPS} sitemap files; ${unread} not read`);
+  return { sitemaps: [...fetched], urls: [...urls] };
+}
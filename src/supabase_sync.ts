@@ -1,8 +1,10 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import './config.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import { Pool, PoolClient } from 'pg';
+import { report } from './cli_output.js';
+import { writeGradesTable } from './grades_table.js';
 
 type ConnEnv = {
   connectionString?: string;
@@ -30,12 +32,16 @@ function buildPoolFromEnv(prefix = ''): Pool {
   return new Pool({ host, port, user, password, database, ssl: env('PGSSL') ? { rejectUnauthorized: false } : undefined });
 }
 
-async function applyMigrations(target: Pool) {
-  const migrationsDir = path.resolve('migrations');
-  const files = fs
-    .readdirSync(migrationsDir)
+function migrationFiles(): string[] {
+  return fs
+    .readdirSync(path.resolve('migrations'))
     .filter((f) => f.endsWith('.sql'))
     .sort();
+}
+
+async function applyMigrations(target: Pool) {
+  const migrationsDir = path.resolve('migrations');
+  const files = migrationFiles();
 
   for (const file of files) {
     const sql = fs.readFileSync(path.join(migrationsDir, file), 'utf-8');
@@ -63,17 +69,36 @@ type Manual = {
   name_jp: string | null;
   name_en: string | null;
   grade: string | null;
+  series: string | null;
+  scale: string | null;
+  model_number: string | null;
+  variant_tags: string[];
   release_date: Date | string | null;
   release_date_text: string | null;
+  release_sort_date: Date | string | null;
+  release_precision: string | null;
   image_url: string | null;
+  image_local_path: string | null;
+  image_storage_url: string | null;
+  last_seen_at: Date | null;
+  delisted_at: Date | null;
+  pdf_removed_at: Date | null;
+  pdf_page_count: number | null;
+  pdf_page_width_pt: number | null;
+  pdf_page_height_pt: number | null;
+  pdf_title: string | null;
+  pdf_created_at: Date | null;
+  pdf_text_pages: number | null;
+  pdf_text_based: boolean | null;
   created_at: Date | null;
   updated_at: Date | null;
 };
 
 async function fetchBatch(source: Pool, offset: number, limit: number): Promise<Manual[]> {
   const res = await source.query(
-    `SELECT manual_id, detail_path, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade,
-            release_date, release_date_text, image_url, created_at, updated_at
+    `SELECT manual_id, detail_path, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, series, scale, model_number, variant_tags,
+            release_date, release_date_text, release_sort_date, release_precision, image_url, image_local_path, image_storage_url, last_seen_at, delisted_at, pdf_removed_at,
+            pdf_page_count, pdf_page_width_pt, pdf_page_height_pt, pdf_title, pdf_created_at, pdf_text_pages, pdf_text_based, created_at, updated_at
      FROM bandai.manuals
      ORDER BY manual_id ASC
      OFFSET $1 LIMIT $2`,
@@ -93,9 +118,27 @@ async function upsertBatch(target: Pool, rows: Manual[]) {
     'name_jp',
     'name_en',
     'grade',
+    'series',
+    'scale',
+    'model_number',
+    'variant_tags',
     'release_date',
     'release_date_text',
+    'release_sort_date',
+    'release_precision',
     'image_url',
+    'image_local_path',
+    'image_storage_url',
+    'last_seen_at',
+    'delisted_at',
+    'pdf_removed_at',
+    'pdf_page_count',
+    'pdf_page_width_pt',
+    'pdf_page_height_pt',
+    'pdf_title',
+    'pdf_created_at',
+    'pdf_text_pages',
+    'pdf_text_based',
     'created_at',
     'updated_at'
   ];
@@ -114,9 +157,27 @@ async function upsertBatch(target: Pool, rows: Manual[]) {
       r.name_jp,
       r.name_en,
       r.grade,
+      r.series,
+      r.scale,
+      r.model_number,
+      r.variant_tags,
       r.release_date,
       r.release_date_text,
+      r.release_sort_date,
+      r.release_precision,
       r.image_url,
+      r.image_local_path,
+      r.image_storage_url,
+      r.last_seen_at,
+      r.delisted_at,
+      r.pdf_removed_at,
+      r.pdf_page_count,
+      r.pdf_page_width_pt,
+      r.pdf_page_height_pt,
+      r.pdf_title,
+      r.pdf_created_at,
+      r.pdf_text_pages,
+      r.pdf_text_based,
       r.created_at,
       r.updated_at
     );
@@ -132,28 +193,130 @@ async function upsertBatch(target: Pool, rows: Manual[]) {
       name_jp = EXCLUDED.name_jp,
       name_en = EXCLUDED.name_en,
       grade = EXCLUDED.grade,
+      series = EXCLUDED.series,
+      scale = EXCLUDED.scale,
+      model_number = EXCLUDED.model_number,
+      variant_tags = EXCLUDED.variant_tags,
       release_date = EXCLUDED.release_date,
       release_date_text = EXCLUDED.release_date_text,
+      release_sort_date = EXCLUDED.release_sort_date,
+      release_precision = EXCLUDED.release_precision,
       image_url = EXCLUDED.image_url,
+      image_local_path = EXCLUDED.image_local_path,
+      image_storage_url = EXCLUDED.image_storage_url,
+      last_seen_at = EXCLUDED.last_seen_at,
+      delisted_at = EXCLUDED.delisted_at,
+      pdf_removed_at = EXCLUDED.pdf_removed_at,
+      pdf_page_count = EXCLUDED.pdf_page_count,
+      pdf_page_width_pt = EXCLUDED.pdf_page_width_pt,
+      pdf_page_height_pt = EXCLUDED.pdf_page_height_pt,
+      pdf_title = EXCLUDED.pdf_title,
+      pdf_created_at = EXCLUDED.pdf_created_at,
+      pdf_text_pages = EXCLUDED.pdf_text_pages,
+      pdf_text_based = EXCLUDED.pdf_text_based,
       updated_at = now();
   `;
   await target.query(sql, values);
 }
 
+// Categories are small; copy them whole after the manuals so the membership foreign keys resolve
+async function copyCategories(source: Pool, target: Pool): Promise<number> {
+  const cats = await source.query('SELECT category_id, name, position FROM bandai.categories ORDER BY category_id');
+  for (const c of cats.rows) {
+    await target.query(
+      `INSERT INTO bandai.categories (category_id, name, position) VALUES ($1,$2,$3)
+       ON CONFLICT (category_id) DO UPDATE SET name = EXCLUDED.name, position = EXCLUDED.position, updated_at = now()`,
+      [c.category_id, c.name, c.position]
+    );
+  }
+  const links = await source.query('SELECT manual_id, category_id FROM bandai.manual_categories');
+  const c = await target.connect();
+  try {
+    await c.query('BEGIN');
+    await c.query('DELETE FROM bandai.manual_categories');
+    await c.query(
+      `INSERT INTO bandai.manual_categories (manual_id, category_id)
+       SELECT t.manual_id, t.category_id FROM unnest($1::int[], $2::int[]) AS t(manual_id, category_id)
+       WHERE EXISTS (SELECT 1 FROM bandai.manuals m WHERE m.manual_id = t.manual_id)`,
+      [links.rows.map((l) => l.manual_id), links.rows.map((l) => l.category_id)]
+    );
+    await c.query('COMMIT');
+  } catch (e) {
+    await c.query('ROLLBACK');
+    throw e;
+  } finally {
+    c.release();
+  }
+  return links.rows.length;
+}
+
+// Extracted page text is the bulk of the data; only manuals whose text_sha256 differs on the target are recopied
+async function copyPages(source: Pool, target: Pool): Promise<number> {
+  const src = await source.query('SELECT manual_id, text_sha256, text_extracted_at FROM bandai.manuals WHERE text_extracted_at IS NOT NULL');
+  const dst = await target.query('SELECT manual_id, text_sha256 FROM bandai.manuals WHERE text_extracted_at IS NOT NULL');
+  const have = new Map<number, string | null>(dst.rows.map((r) => [r.manual_id, r.text_sha256]));
+  const stale = src.rows.filter((r) => !have.has(r.manual_id) || have.get(r.manual_id) !== r.text_sha256);
+  for (const m of stale) {
+    const pages = await source.query('SELECT page, content FROM bandai.manual_pages WHERE manual_id = $1 ORDER BY page', [m.manual_id]);
+    const c = await target.connect();
+    try {
+      await c.query('BEGIN');
+      await c.query('DELETE FROM bandai.manual_pages WHERE manual_id = $1', [m.manual_id]);
+      await c.query(
+        `INSERT INTO bandai.manual_pages (manual_id, page, content)
+         SELECT $1, t.page, t.content FROM unnest($2::int[], $3::text[]) AS t(page, content)`,
+        [m.manual_id, pages.rows.map((p) => p.page), pages.rows.map((p) => p.content)]
+      );
+      await c.query('UPDATE bandai.manuals SET text_sha256 = $2, text_extracted_at = $3 WHERE manual_id = $1', [
+        m.manual_id,
+        m.text_sha256,
+        m.text_extracted_at
+      ]);
+      await c.query('COMMIT');
+    } catch (e) {
+      await c.query('ROLLBACK');
+      throw e;
+    } finally {
+      c.release();
+    }
+  }
+  return stale.length;
+}
+
 async function main() {
   const args = process.argv.slice(2);
-  const dataOnly = args.includes('--data-only');
+  const dataOnly = args.includes('--data-only') || process.env.SYNC_DATA_ONLY === '1';
+  const dryRun = args.includes('--dry-run') || process.env.DRY_RUN === '1';
   const batchSize = parseInt(process.env.BATCH_SIZE || '200', 10);
 
   // Source DB (your current/local DB)
   const source = buildPoolFromEnv('SOURCE_');
 
+  // --dry-run reports what would be sent without connecting to the target
+  if (dryRun) {
+    const migrations = dataOnly ? [] : migrationFiles();
+    const res = await source.query(
+      `SELECT (SELECT count(*) FROM bandai.manuals)::int AS manuals,
+              (SELECT count(*) FROM bandai.manual_categories)::int AS category_links,
+              (SELECT count(DISTINCT manual_id) FROM bandai.manual_pages)::int AS page_texts`
+    );
+    const counts = res.rows[0];
+    if (migrations.length) console.log(`[supabase:sync] would apply migrations: ${migrations.join(', ')}`);
+    console.log(
+      `[supabase:sync] would copy ${counts.manuals} rows, ${counts.category_links} category links, page text for ${counts.page_texts} manuals`
+    );
+    report({ dryRun: true, migrations, ...counts });
+    await source.end();
+    return;
+  }
+
   // Target DB (Supabase Postgres)
   const target = buildPoolFromEnv('SUPABASE_');
 
   if (!dataOnly) {
     console.log('[supabase:sync] applying migrations on target (Supabase)');
     await applyMigrations(target);
+    await writeGradesTable(target);
   }
 
   console.log('[supabase:sync] copying data in batches');
@@ -168,7 +331,13 @@ async function main() {
     if (total % 500 === 0) console.log(`[supabase:sync] copied ${total} rows`);
   }
 
+  const links = await copyCategories(source, target);
+  console.log(`[supabase:sync] copied categories (${links} manual links)`);
+  const texts = await copyPages(source, target);
+  console.log(`[supabase:sync] copied page text for ${texts} manuals`);
+
   console.log(`[supabase:sync] done. total rows: ${total}`);
+  report({ migrations: dataOnly ? [] : migrationFiles(), manuals: total, category_links: links, page_texts: texts });
 
   await source.end();
   await target.end();
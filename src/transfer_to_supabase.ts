@@ -1,11 +1,13 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import './config.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import pLimit from 'p-limit';
 import { createClient } from '@supabase/supabase-js';
 import { sanitizeStorageKeyPart } from './utils.js';
 import { Pool } from 'pg';
+import { JobRun } from './job_runs.js';
+import { writeGradesTable } from './grades_table.js';
 
 // ---- Helpers to build Postgres pools from env ----
 function buildPoolFromEnv(prefix = ''): Pool {
@@ -58,17 +60,36 @@ type Manual = {
   name_jp: string | null;
   name_en: string | null;
   grade: string | null;
+  series: string | null;
+  scale: string | null;
+  model_number: string | null;
+  variant_tags: string[];
   release_date: Date | string | null;
   release_date_text: string | null;
+  release_sort_date: Date | string | null;
+  release_precision: string | null;
   image_url: string | null;
+  image_local_path: string | null;
+  image_storage_url: string | null;
+  last_seen_at: Date | null;
+  delisted_at: Date | null;
+  pdf_removed_at: Date | null;
+  pdf_page_count: number | null;
+  pdf_page_width_pt: number | null;
+  pdf_page_height_pt: number | null;
+  pdf_title: string | null;
+  pdf_created_at: Date | null;
+  pdf_text_pages: number | null;
+  pdf_text_based: boolean | null;
   created_at: Date | null;
   updated_at: Date | null;
 };
 
 async function fetchBatch(source: Pool, offset: number, limit: number): Promise<Manual[]> {
   const res = await source.query(
-    `SELECT manual_id, detail_path, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade,
-            release_date, release_date_text, image_url, created_at, updated_at
+    `SELECT manual_id, detail_path, detail_url, pdf_url, pdf_local_path, name_jp, name_en, grade, series, scale, model_number, variant_tags,
+            release_date, release_date_text, release_sort_date, release_precision, image_url, image_local_path, image_storage_url, last_seen_at, delisted_at, pdf_removed_at,
+            pdf_page_count, pdf_page_width_pt, pdf_page_height_pt, pdf_title, pdf_created_at, pdf_text_pages, pdf_text_based, created_at, updated_at
      FROM bandai.manuals
      ORDER BY manual_id ASC
      OFFSET $1 LIMIT $2`,
@@ -88,9 +109,27 @@ async function upsertBatch(target: Pool, rows: Manual[]) {
     'name_jp',
     'name_en',
     'grade',
+    'series',
+    'scale',
+    'model_number',
+    'variant_tags',
     'release_date',
     'release_date_text',
+    'release_sort_date',
+    'release_precision',
     'image_url',
+    'image_local_path',
+    'image_storage_url',
+    'last_seen_at',
+    'delisted_at',
+    'pdf_removed_at',
+    'pdf_page_count',
+    'pdf_page_width_pt',
+    'pdf_page_height_pt',
+    'pdf_title',
+    'pdf_created_at',
+    'pdf_text_pages',
+    'pdf_text_based',
     'created_at',
     'updated_at'
   ];
@@ -109,9 +148,27 @@ async function upsertBatch(target: Pool, rows: Manual[]) {
       r.name_jp,
       r.name_en,
       r.grade,
+      r.series,
+      r.scale,
+      r.model_number,
+      r.variant_tags,
       r.release_date,
       r.release_date_text,
+      r.release_sort_date,
+      r.release_precision,
       r.image_url,
+      r.image_local_path,
+      r.image_storage_url,
+      r.last_seen_at,
+      r.delisted_at,
+      r.pdf_removed_at,
+      r.pdf_page_count,
+      r.pdf_page_width_pt,
+      r.pdf_page_height_pt,
+      r.pdf_title,
+      r.pdf_created_at,
+      r.pdf_text_pages,
+      r.pdf_text_based,
       r.created_at,
       r.updated_at
     );
@@ -127,14 +184,96 @@ async function upsertBatch(target: Pool, rows: Manual[]) {
       name_jp = EXCLUDED.name_jp,
       name_en = EXCLUDED.name_en,
       grade = EXCLUDED.grade,
+      series = EXCLUDED.series,
+      scale = EXCLUDED.scale,
+      model_number = EXCLUDED.model_number,
+      variant_tags = EXCLUDED.variant_tags,
       release_date = EXCLUDED.release_date,
       release_date_text = EXCLUDED.release_date_text,
+      release_sort_date = EXCLUDED.release_sort_date,
+      release_precision = EXCLUDED.release_precision,
       image_url = EXCLUDED.image_url,
+      image_local_path = EXCLUDED.image_local_path,
+      image_storage_url = EXCLUDED.image_storage_url,
+      last_seen_at = EXCLUDED.last_seen_at,
+      delisted_at = EXCLUDED.delisted_at,
+      pdf_removed_at = EXCLUDED.pdf_removed_at,
+      pdf_page_count = EXCLUDED.pdf_page_count,
+      pdf_page_width_pt = EXCLUDED.pdf_page_width_pt,
+      pdf_page_height_pt = EXCLUDED.pdf_page_height_pt,
+      pdf_title = EXCLUDED.pdf_title,
+      pdf_created_at = EXCLUDED.pdf_created_at,
+      pdf_text_pages = EXCLUDED.pdf_text_pages,
+      pdf_text_based = EXCLUDED.pdf_text_based,
       updated_at = now();
   `;
   await target.query(sql, values);
 }
 
+// Categories are small; copy them whole after the manuals so the membership foreign keys resolve
+async function copyCategories(source: Pool, target: Pool): Promise<number> {
+  const cats = await source.query('SELECT category_id, name, position FROM bandai.categories ORDER BY category_id');
+  for (const c of cats.rows) {
+    await target.query(
+      `INSERT INTO bandai.categories (category_id, name, position) VALUES ($1,$2,$3)
+       ON CONFLICT (category_id) DO UPDATE SET name = EXCLUDED.name, position = EXCLUDED.position, updated_at = now()`,
+      [c.category_id, c.name, c.position]
+    );
+  }
+  const links = await source.query('SELECT manual_id, category_id FROM bandai.manual_categories');
+  const c = await target.connect();
+  try {
+    await c.query('BEGIN');
+    await c.query('DELETE FROM bandai.manual_categories');
+    await c.query(
+      `INSERT INTO bandai.manual_categories (manual_id, category_id)
+       SELECT t.manual_id, t.category_id FROM unnest($1::int[], $2::int[]) AS t(manual_id, category_id)
+       WHERE EXISTS (SELECT 1 FROM bandai.manuals m WHERE m.manual_id = t.manual_id)`,
+      [links.rows.map((l) => l.manual_id), links.rows.map((l) => l.category_id)]
+    );
+    await c.query('COMMIT');
+  } catch (e) {
+    await c.query('ROLLBACK');
+    throw e;
+  } finally {
+    c.release();
+  }
+  return links.rows.length;
+}
+
+// Extracted page text is the bulk of the data; only manuals whose text_sha256 differs on the target are recopied
+async function copyPages(source: Pool, target: Pool): Promise<number> {
+  const src = await source.query('SELECT manual_id, text_sha256, text_extracted_at FROM bandai.manuals WHERE text_extracted_at IS NOT NULL');
+  const dst = await target.query('SELECT manual_id, text_sha256 FROM bandai.manuals WHERE text_extracted_at IS NOT NULL');
+  const have = new Map<number, string | null>(dst.rows.map((r) => [r.manual_id, r.text_sha256]));
+  const stale = src.rows.filter((r) => !have.has(r.manual_id) || have.get(r.manual_id) !== r.text_sha256);
+  for (const m of stale) {
+    const pages = await source.query('SELECT page, content FROM bandai.manual_pages WHERE manual_id = $1 ORDER BY page', [m.manual_id]);
+    const c = await target.connect();
+    try {
+      await c.query('BEGIN');
+      await c.query('DELETE FROM bandai.manual_pages WHERE manual_id = $1', [m.manual_id]);
+      await c.query(
+        `INSERT INTO bandai.manual_pages (manual_id, page, content)
+         SELECT $1, t.page, t.content FROM unnest($2::int[], $3::text[]) AS t(page, content)`,
+        [m.manual_id, pages.rows.map((p) => p.page), pages.rows.map((p) => p.content)]
+      );
+      await c.query('UPDATE bandai.manuals SET text_sha256 = $2, text_extracted_at = $3 WHERE manual_id = $1', [
+        m.manual_id,
+        m.text_sha256,
+        m.text_extracted_at
+      ]);
+      await c.query('COMMIT');
+    } catch (e) {
+      await c.query('ROLLBACK');
+      throw e;
+    } finally {
+      c.release();
+    }
+  }
+  return stale.length;
+}
+
 // ---- Storage upload ----
 function validateSupabaseEnv() {
   const url = process.env.SUPABASE_URL;
@@ -174,7 +313,7 @@ function buildObjectPath(r: TargetRow, prefix?: string): string {
   return prefix ? `${prefix.replace(/\/+$/, '')}/${base}` : base;
 }
 
-async function uploadAllToStorage(target: Pool) {
+async function uploadAllToStorage(target: Pool, run: JobRun) {
   const cfg = validateSupabaseEnv();
   if (!cfg) {
     console.log('[transfer] Skipping storage upload (SUPABASE_URL/KEY not set)');
@@ -220,9 +359,11 @@ async function uploadAllToStorage(target: Pool) {
             [r.manual_id, bucket, objectPath, publicUrl, buf.byteLength]
           );
           uploaded++;
+          run.inserted++;
         } catch (e) {
           // log and continue
           console.warn(`[transfer] upload fail ${r.manual_id}`, e);
+          run.fail(r.manual_id, e);
         } finally {
           done++;
           if (done % 25 === 0) console.log(`[transfer] uploaded ${uploaded}/${done}/${rows.length}`);
@@ -245,23 +386,41 @@ async function main() {
   if (!noMigrate) {
     console.log('[transfer] applying migrations on target');
     await applyMigrations(target);
+    await writeGradesTable(target);
   }
 
-  console.log('[transfer] copying data');
-  let offset = 0;
-  let total = 0;
-  while (true) {
-    const rows = await fetchBatch(source, offset, batchSize);
-    if (rows.length === 0) break;
-    await upsertBatch(target, rows);
-    total += rows.length;
-    offset += rows.length;
-    if (total % 500 === 0) console.log(`[transfer] copied ${total}`);
-  }
-  console.log(`[transfer] copy complete: ${total} rows`);
+  // Recorded in the target DB, which is where the copied data ends up
+  const run = await JobRun.start('transfer', { dataOnly: noMigrate, noUpload, batchSize }, (sql, params) =>
+    target.query(sql, params)
+  );
+  try {
+    console.log('[transfer] copying data');
+    let offset = 0;
+    let total = 0;
+    while (true) {
+      const rows = await fetchBatch(source, offset, batchSize);
+      if (rows.length === 0) break;
+      await upsertBatch(target, rows);
+      total += rows.length;
+      offset += rows.length;
+      run.seen += rows.length;
+      run.updated += rows.length;
+      if (total % 500 === 0) console.log(`[transfer] copied ${total}`);
+    }
+    console.log(`[transfer] copy complete: ${total} rows`);
+    const links = await copyCategories(source, target);
+    console.log(`[transfer] copied categories (${links} manual links)`);
+    const texts = await copyPages(source, target);
+    console.log(`[transfer] copied page text for ${texts} manuals`);
+    await run.flush();
 
-  if (!noUpload) {
-    await uploadAllToStorage(target);
+    if (!noUpload) {
+      await uploadAllToStorage(target, run);
+    }
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
   }
 
   await source.end();
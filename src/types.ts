@@ -1,20 +1,50 @@
+import type { HttpCache } from './http_cache.js';
+
 export type CrawlConfig = {
   baseUrl: string;
   hostAllowlist?: string[]; // Hosts allowed to crawl
   includePathPatterns?: (string | RegExp)[]; // Only follow links that match any
   excludePathPatterns?: (string | RegExp)[]; // Skip links that match any
-  maxPages?: number; // Hard cap on pages to visit
-  concurrency?: number; // parallel fetches
+  maxPages?: number; // Hard cap on pages to visit in one run; with frontierFile the next run continues
+  maxDepth?: number; // Link hops from baseUrl to follow (default unlimited)
+  concurrency?: number; // pages in flight at once
   delayMs?: number; // optional delay between requests
   userAgent?: string;
   timeoutMs?: number;
+  respectRobots?: boolean; // skip URLs disallowed by robots.txt and honor Crawl-delay (default true)
+  cache?: HttpCache; // optional on-disk HTTP cache for fetched pages
+  frontierFile?: string; // JSON file holding the queue and seen set between runs; in memory only when unset
+  sitemaps?: boolean; // seed a new crawl with the site's sitemap URLs (default true)
+  onPage?: (page: CrawledPage) => Promise<void>; // called once per visited page, in visit order
+};
+
+export type CrawledPage = {
+  url: string;
+  depth: number;
+  status: 'ok' | 'error' | 'robots';
+  httpStatus: number | null;
+  error: string | null;
+  finalUrl: string | null; // after redirects, when different from url
+  canonicalUrl: string | null; // <link rel="canonical">, when different from url
+  contentHash: string | null; // sha256 of the page's whitespace-collapsed body text
+  links: string[]; // in-domain links accepted by the include/exclude patterns
+  pdfs: string[];
 };
 
 export type CrawlResult = {
-  visitedCount: number;
+  visitedCount: number; // pages visited by this run
+  resumed: boolean; // continued a frontier saved by an earlier run
+  remaining: number; // URLs left in the frontier; 0 when the crawl is complete
+  sitemapUrls: number; // URLs queued from sitemaps (new crawls only)
   discovered: string[]; // all discovered URLs (unique)
   manualPages: string[]; // pages that contain PDF links
   pdfs: string[]; // direct PDF URLs discovered
+  duplicates: DuplicatePages[]; // pages visited by this run with identical content
+};
+
+export type DuplicatePages = {
+  contentHash: string;
+  urls: string[];
 };
 
 export type DownloadJob = {
@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import 'dotenv/config';
+import './config.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import { createClient } from '@supabase/supabase-js';
@@ -7,6 +7,8 @@ import { withClient } from './db.js';
 import { absFromRel, filesRoot } from './paths.js';
 import pLimit from 'p-limit';
 import { sanitizeStorageKeyPart } from './utils.js';
+import { JobRun } from './job_runs.js';
+import { FileCheck, inspectPdfFile } from './pdf.js';
 
 const SUPABASE_URL = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const SUPABASE_KEY = process.env.SUPABASE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY || '';
@@ -14,7 +16,7 @@ const BUCKET = process.env.SUPABASE_BUCKET || 'manuals';
 const PREFIX = process.env.SUPABASE_PREFIX || '';
 const CONCURRENCY = parseInt(process.env.UPLOAD_CONCURRENCY || '2', 10);
 const OVERWRITE = (process.env.OVERWRITE || '0') === '1';
-const DRY_RUN = (process.env.DRY_RUN || '0') === '1';
+const DRY_RUN = (process.env.DRY_RUN || '0') === '1' || process.argv.includes('--dry-run');
 
 function validateSupabaseEnv() {
   if (!SUPABASE_URL || !SUPABASE_KEY) {
@@ -62,11 +64,12 @@ type Row = {
   storage_bucket: string | null;
   storage_path: string | null;
   storage_public_url: string | null;
+  storage_sha256: string | null;
 };
 
 async function selectRows(limit?: number): Promise<Row[]> {
   const sql = `
-    SELECT manual_id, name_en, name_jp, pdf_local_path, storage_bucket, storage_path, storage_public_url
+    SELECT manual_id, name_en, name_jp, pdf_local_path, storage_bucket, storage_path, storage_public_url, storage_sha256
     FROM bandai.manuals
     WHERE pdf_local_path IS NOT NULL
     ORDER BY manual_id ASC
@@ -84,10 +87,19 @@ function buildObjectPath(r: Row): string {
   return (PREFIX ? `${PREFIX.replace(/\/+$/, '')}/` : '') + baseName;
 }
 
-async function uploadOne(r: Row) {
-  if (!r.pdf_local_path) return { skipped: true };
+type UploadResult = { uploaded: true; bucket: string; objectPath: string } | { uploaded: false; reason: string };
+
+async function uploadOne(r: Row): Promise<UploadResult> {
+  if (!r.pdf_local_path) return { uploaded: false, reason: 'no local file' };
   const abs = absFromRel(r.pdf_local_path);
-  if (!fs.existsSync(abs)) return { skipped: true, reason: 'missing local file' };
+  if (!fs.existsSync(abs)) return { uploaded: false, reason: 'missing local file' };
+  // Cheap skip first: only files that are about to be uploaded get hashed
+  if (r.storage_public_url && !OVERWRITE) return { uploaded: false, reason: 'already uploaded' };
+  // Same checks as `npm run verify`; the result is stored so the DB reflects what was (not) uploaded
+  const check = await inspectPdfFile(abs);
+  if (!DRY_RUN) await saveCheck(r.manual_id, check);
+  if (check.problem) throw new Error(`refusing to upload ${r.pdf_local_path}: ${check.problem}`);
+  if (r.storage_sha256 === check.sha256) return { uploaded: false, reason: 'same hash already in storage' };
   const op = r.storage_path || (() => {
     const safe = sanitizeStorageKeyPart(r.name_en || r.name_jp || 'manual');
     const baseName = `${r.manual_id}-${safe}.pdf`;
@@ -98,15 +110,10 @@ async function uploadOne(r: Row) {
 
   if (DRY_RUN) {
     console.log(`[dry] would upload ${abs} -> ${bucket}/${objectPath}`);
-    return { skipped: true };
+    return { uploaded: false, reason: 'dry run' };
   }
 
   const fileBuf = fs.readFileSync(abs);
-  const exists = !!r.storage_public_url;
-  if (exists && !OVERWRITE) {
-    return { skipped: true, reason: 'already uploaded' };
-  }
-
   const { error } = await supabase.storage.from(bucket).upload(objectPath, fileBuf, {
     upsert: OVERWRITE,
     contentType: 'application/pdf'
@@ -123,36 +130,78 @@ async function uploadOne(r: Row) {
 
   await withClient((c) =>
     c.query(
-      `UPDATE bandai.manuals SET storage_bucket=$2, storage_path=$3, storage_public_url=$4, storage_size_bytes=$5, storage_uploaded_at=now(), updated_at=now() WHERE manual_id=$1`,
-      [r.manual_id, bucket, objectPath, publicUrl, size]
+      `UPDATE bandai.manuals SET storage_bucket=$2, storage_path=$3, storage_public_url=$4, storage_size_bytes=$5, storage_sha256=$6, storage_uploaded_at=now(), updated_at=now() WHERE manual_id=$1`,
+      [r.manual_id, bucket, objectPath, publicUrl, size, check.sha256]
     )
   );
   return { uploaded: true, bucket, objectPath };
 }
 
+async function saveCheck(manualId: number, check: FileCheck) {
+  await withClient((c) =>
+    c.query(
+      `UPDATE bandai.manuals SET pdf_sha256=$2, pdf_size_bytes=$3, pdf_mime=$4, pdf_valid=$5, pdf_problem=$6, validated_at=now() WHERE manual_id=$1`,
+      [manualId, check.sha256, check.size, check.mime, check.problem === null, check.problem]
+    )
+  );
+}
+
 async function main() {
-  await ensureBucketPublic(BUCKET);
+  if (!DRY_RUN) await ensureBucketPublic(BUCKET);
   const rows = await selectRows(process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined);
-  console.log(`[supabase:upload] candidates: ${rows.length} -> bucket ${BUCKET}`);
+  console.log(`[supabase:upload] candidates: ${rows.length} -> bucket ${BUCKET}${DRY_RUN ? ' (dry run)' : ''}`);
+  if (DRY_RUN) {
+    await previewAll(rows);
+    return;
+  }
+  const run = await JobRun.start('upload', { bucket: BUCKET, prefix: PREFIX, overwrite: OVERWRITE });
+  try {
+    await uploadAll(rows, run);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+async function uploadAll(rows: Row[], run: JobRun) {
   const limit = pLimit(CONCURRENCY);
   let done = 0;
-  let uploaded = 0;
   await Promise.all(
     rows.map((r) =>
       limit(async () => {
         try {
           const res = await uploadOne(r);
-          if ((res as any).uploaded) uploaded++;
+          if (res.uploaded) run.inserted++;
         } catch (e) {
           console.warn(`[supabase:upload] fail ${r.manual_id}`, e);
+          run.fail(r.manual_id, e);
         } finally {
           done++;
+          run.seen++;
           if (done % 10 === 0) console.log(`[supabase:upload] ${done}/${rows.length}`);
+          if (done % 100 === 0) await run.flush();
         }
       })
     )
   );
-  console.log(`[supabase:upload] uploaded: ${uploaded}/${rows.length}`);
+  console.log(`[supabase:upload] uploaded: ${run.inserted}/${rows.length}, failed: ${run.failed}`);
+}
+
+// Dry run: same checks and skips as an upload, but nothing is written (no job run either); prints a tally
+async function previewAll(rows: Row[]) {
+  const tally = new Map<string, number>();
+  const count = (k: string) => tally.set(k, (tally.get(k) ?? 0) + 1);
+  for (const r of rows) {
+    try {
+      const res = await uploadOne(r);
+      count(res.uploaded ? 'uploaded' : res.reason);
+    } catch (e: any) {
+      console.warn(`[supabase:upload] would fail ${r.manual_id}: ${e?.message || e}`);
+      count('would fail');
+    }
+  }
+  console.log(`[supabase:upload] ${[...tally].map(([k, n]) => `${k}: ${n}`).join(', ') || 'nothing to do'}`);
 }
 
 main().catch((e) => {
@@ -22,6 +22,26 @@ export function ensureAbsoluteUrl(baseUrl: string, href: string | undefined | nu
   }
 }
 
+// Query parameters that only track where a visitor came from; they never change the page
+export const TRACKING_PARAMS = [/^utm_/i, /^(gclid|dclid|fbclid|yclid|msclkid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi)$/i];
+
+// One spelling per page for seen-sets and dedup: no fragment, no tracking parameters, remaining parameters
+// sorted by name then value (`?sort=new&page=2` == `?page=2&sort=new`). Host case and default ports are
+// already normalized by URL. Returns the input unchanged when it does not parse.
+export function canonicalizeUrl(input: string): string {
+  let u: URL;
+  try {
+    u = new URL(input);
+  } catch {
+    return input;
+  }
+  u.hash = '';
+  const params = [...u.searchParams].filter(([k]) => !TRACKING_PARAMS.some((re) => re.test(k)));
+  params.sort(([ak, av], [bk, bv]) => (ak < bk ? -1 : ak > bk ? 1 : av < bv ? -1 : av > bv ? 1 : 0));
+  u.search = new URLSearchParams(params).toString();
+  return u.toString();
+}
+
 export function urlBasename(urlStr: string): string {
   try {
     const u = new URL(urlStr);
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+import './config.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import pLimit from 'p-limit';
+import { withClient, endPool } from './db.js';
+import { absFromRel, joinFiles, relFromAbs } from './paths.js';
+import { JobRun } from './job_runs.js';
+import { FileCheck, inspectPdfFile } from './pdf.js';
+
+// Rehash every manual's local PDF, store sha256/size/MIME/validity, and report files on disk nobody references.
+// --reset-invalid clears pdf_local_path on bad rows so `npm run download:db` fetches them again.
+const SUBDIR = process.env.SUBDIR || 'manuals';
+const LIMIT = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : undefined;
+const IDS = process.env.IDS; // e.g. "123,456"
+const CONCURRENCY = Math.max(1, parseInt(process.env.VERIFY_CONCURRENCY || '2', 10));
+const RESET_INVALID = process.argv.includes('--reset-invalid') || process.env.RESET_INVALID === '1';
+const MAX_LISTED = 20;
+
+type Row = { manual_id: number; pdf_local_path: string };
+
+async function selectRows(): Promise<Row[]> {
+  const clauses = ["pdf_local_path IS NOT NULL", "pdf_local_path <> ''"];
+  const params: any[] = [];
+  if (IDS) {
+    const ids = IDS.split(',').map((s) => parseInt(s.trim(), 10)).filter((n) => Number.isFinite(n));
+    if (ids.length) {
+      clauses.push(`manual_id = ANY($${params.length + 1})`);
+      params.push(ids);
+    }
+  }
+  const sql = `
+    SELECT manual_id, pdf_local_path
+    FROM bandai.manuals
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY manual_id ASC
+    ${LIMIT ? `LIMIT ${LIMIT}` : ''}
+  `;
+  const res = await withClient((c) => c.query(sql, params));
+  return res.rows as Row[];
+}
+
+async function inspect(abs: string): Promise<FileCheck | { problem: string }> {
+  try {
+    return await inspectPdfFile(abs);
+  } catch (e: any) {
+    return { problem: e?.code === 'ENOENT' ? 'missing' : `unreadable (${e?.code || e?.message || e})` };
+  }
+}
+
+async function saveCheck(manualId: number, check: FileCheck | { problem: string }) {
+  const full = 'sha256' in check ? check : null;
+  const reset = RESET_INVALID && check.problem !== null;
+  await withClient((c) =>
+    c.query(
+      `UPDATE bandai.manuals
+       SET pdf_sha256 = $2, pdf_size_bytes = $3, pdf_mime = $4, pdf_valid = $5, pdf_problem = $6, validated_at = now()
+           ${reset ? ', pdf_local_path = NULL' : ''}
+       WHERE manual_id = $1`,
+      [manualId, full?.sha256 ?? null, full?.size ?? null, full?.mime ?? null, check.problem === null, check.problem]
+    )
+  );
+}
+
+function listFiles(dir: string): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries.flatMap((e) => {
+    const p = path.join(dir, e.name);
+    return e.isDirectory() ? listFiles(p) : e.isFile() ? [p] : [];
+  });
+}
+
+async function main() {
+  const rows = await selectRows();
+  console.log(`[verify] manuals with a local file: ${rows.length}`);
+  const run = await JobRun.start('verify', { ids: IDS ?? null, limit: LIMIT ?? null, resetInvalid: RESET_INVALID });
+  try {
+    const invalid = await verifyAll(rows, run);
+    // Orphans are only meaningful when every row was checked
+    const orphans = IDS || LIMIT ? null : findOrphans(rows, await archivedPaths());
+    report(invalid, orphans);
+    await run.finish();
+  } catch (e) {
+    await run.finish(e);
+    throw e;
+  }
+}
+
+async function verifyAll(rows: Row[], run: JobRun): Promise<Array<{ row: Row; problem: string }>> {
+  const limit = pLimit(CONCURRENCY);
+  const invalid: Array<{ row: Row; problem: string }> = [];
+  let done = 0;
+  await Promise.all(
+    rows.map((r) =>
+      limit(async () => {
+        const check = await inspect(absFromRel(r.pdf_local_path));
+        await saveCheck(r.manual_id, check);
+        run.seen++;
+        run.updated++;
+        if (check.problem !== null) {
+          invalid.push({ row: r, problem: check.problem });
+          run.fail(r.manual_id, `${r.pdf_local_path}: ${check.problem}`);
+        }
+        done++;
+        if (done % 100 === 0) {
+          console.log(`[verify] ${done}/${rows.length}, invalid so far: ${invalid.length}`);
+          await run.flush();
+        }
+      })
+    )
+  );
+  invalid.sort((a, b) => a.row.manual_id - b.row.manual_id);
+  return invalid;
+}
+
+// Earlier print runs kept by `download:db --revalidate` are referenced from bandai.manual_versions
+async function archivedPaths(): Promise<string[]> {
+  const res = await withClient((c) => c.query('SELECT local_path FROM bandai.manual_versions'));
+  return res.rows.map((r: { local_path: string }) => r.local_path);
+}
+
+function findOrphans(rows: Row[], archived: string[]): { files: string[]; parts: string[] } {
+  const known = new Set([...rows.map((r) => r.pdf_local_path), ...archived].map((p) => path.normalize(p)));
+  const files: string[] = [];
+  const parts: string[] = [];
+  for (const abs of listFiles(joinFiles(SUBDIR))) {
+    const rel = relFromAbs(abs);
+    if (/\.part(\.json)?$|\.incoming\.pdf$/.test(rel)) parts.push(rel);
+    else if (!known.has(path.normalize(rel))) files.push(rel);
+  }
+  return { files: files.sort(), parts: parts.sort() };
+}
+
+function report(invalid: Array<{ row: Row; problem: string }>, orphans: { files: string[]; parts: string[] } | null) {
+  console.log(`[verify] invalid: ${invalid.length}${RESET_INVALID && invalid.length ? ' (pdf_local_path cleared)' : ''}`);
+  for (const { row, problem } of invalid.slice(0, MAX_LISTED)) {
+    console.log(`  ${row.manual_id}\t${row.pdf_local_path}\t${problem}`);
+  }
+  if (invalid.length > MAX_LISTED) console.log(`  ... and ${invalid.length - MAX_LISTED} more (pdf_valid = false)`);
+  if (!orphans) return;
+  console.log(`[verify] files under ${SUBDIR}/ not referenced by any manual: ${orphans.files.length}`);
+  for (const f of orphans.files.slice(0, MAX_LISTED)) console.log(`  ${f}`);
+  if (orphans.parts.length) console.log(`[verify] unfinished downloads (.part): ${orphans.parts.length}`);
+  if (invalid.length && !RESET_INVALID) console.log('[verify] rerun with --reset-invalid, then `npm run download:db`, to fetch them again');
+}
+
+main()
+  .catch((e) => {
+    console.error('[verify] failed:', e);
+    process.exit(1);
+  })
+  .finally(() => endPool());